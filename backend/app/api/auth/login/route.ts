@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { serializeSession, signToken, verifyPassword } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+// POST: Sign in with email and password; returns a Bearer token
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const { email, password } = JSON.parse(body);
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return jsonResponse({ error: 'email and password are required' }, 400);
+    }
+
+    const login = await prisma.login.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+
+    // Same answer for an unknown email and a wrong password
+    if (!login || !(await verifyPassword(password, login.password))) {
+      return jsonResponse({ error: 'Invalid email or password' }, 401);
+    }
+    if (!login.approved) {
+      return jsonResponse({ error: 'This account is waiting for an admin of your congregation to approve it' }, 403);
+    }
+
+    const updated = await prisma.login.update({
+      where: { id: login.id },
+      data: { loginCount: { increment: 1 }, updatedAt: new Date() },
+    });
+
+    return jsonResponse({
+      message: 'Signed in successfully',
+      token: signToken(updated),
+      user: serializeSession(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+// POST: Sign out by revoking every token issued to the current login
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    await prisma.login.update({
+      where: { id: auth.session.loginId },
+      data: { tokenVersion: { increment: 1 }, updatedAt: new Date() },
+    });
+
+    return jsonResponse({ message: 'Signed out successfully' });
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
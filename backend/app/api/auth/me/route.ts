@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+// GET: The signed-in user
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    return jsonResponse({ user: auth.session });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
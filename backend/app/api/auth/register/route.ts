@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { hashPassword, parseAccountInput } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+// POST: Create a Login for an existing congregation. It cannot sign in until an admin
+// of that congregation approves it through /api/users.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const data = JSON.parse(body);
+    const account = parseAccountInput(data);
+    if ('error' in account) {
+      return jsonResponse({ error: account.error }, 400);
+    }
+
+    const { congregationNumber } = data;
+    if (!Number.isInteger(congregationNumber)) {
+      return jsonResponse({ error: 'congregationNumber must be an integer' }, 400);
+    }
+
+    const congregation = await prisma.congregation.findUnique({
+      where: { idCongregation: congregationNumber },
+    });
+    if (!congregation) {
+      return jsonResponse({ error: 'Congregation not found' }, 404);
+    }
+
+    const existing = await prisma.login.findUnique({ where: { email: account.email } });
+    if (existing) {
+      return jsonResponse({ error: 'An account with this email already exists' }, 409);
+    }
+
+    const login = await prisma.login.create({
+      data: {
+        name: account.name,
+        email: account.email,
+        password: await hashPassword(account.password),
+        whatsapp: account.whatsapp,
+        congregationNumber,
+        updatedAt: new Date(),
+        // Self-registration never grants admin: a congregation's first admin is
+        // created by onboarding, and admins promote others through /api/users
+        role: 'publisher',
+        approved: false,
+      },
+    });
+
+    return jsonResponse({
+      message: 'Account created. An admin of your congregation must approve it before you can sign in.',
+      userId: login.id,
+      approved: login.approved,
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
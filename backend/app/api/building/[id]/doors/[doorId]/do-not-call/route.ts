@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { clearDoNotCall, findDoor, markDoNotCall, parseDoNotCallInput, serializeDoor } from '@/lib/doors';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string; doorId: string }> };
+
+// PUT: Mark a door do-not-call ({ reason?, markedAt?, reviewAfter? }), or change the
+// reason and review date of the request already on it
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:edit');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    const body = await request.text();
+    const input = parseDoNotCallInput(body ? JSON.parse(body) : {});
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const updated = await prisma.$transaction(tx =>
+      markDoNotCall(tx, door, input, auth.session.name, auth.session.publisherId)
+    );
+
+    return jsonResponse({
+      message: door.dnc_at ? 'Do-not-call request updated' : 'Door marked do-not-call',
+      buildingId,
+      door: serializeDoor(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('PUT', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Clear a door's do-not-call request, so it is called on again
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'do-not-call:clear');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    if (!door.dnc_at) {
+      return jsonResponse({ message: 'Door is not marked do-not-call', buildingId, door: serializeDoor(door) });
+    }
+
+    const updated = await prisma.$transaction(tx =>
+      clearDoNotCall(tx, door, auth.session.name, auth.session.publisherId)
+    );
+
+    return jsonResponse({
+      message: 'Do-not-call request cleared',
+      buildingId,
+      door: serializeDoor(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PUT, DELETE');
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { doorSnapshot, recordAudit } from '@/lib/audit';
+import { forbiddenResponse } from '@/lib/congregation';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// DELETE: Permanently remove a single door that is in the recycle bin
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; doorId: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:purge');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const buildingId = parseId(id);
+    const parsedDoorId = parseId(doorId);
+    if (buildingId === null || parsedDoorId === null) {
+      return jsonResponse({ error: 'Invalid building or door ID' }, 400);
+    }
+
+    const door = await prisma.door.findFirst({
+      where: { idDoor: parsedDoorId, building_id: buildingId },
+    });
+
+    if (!door) {
+      return jsonResponse({ error: 'Door not found' }, 404);
+    }
+    if (door.id_cong_app !== auth.session.congregationId) {
+      return forbiddenResponse();
+    }
+    if (!door.deletedAt) {
+      return jsonResponse({ error: 'Only doors in the recycle bin can be purged' }, 409);
+    }
+
+    await prisma.$transaction(async tx => {
+      await tx.door.delete({ where: { idDoor: door.idDoor } });
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'door',
+        entityId: door.idDoor,
+        buildingId,
+        action: 'purge',
+        before: doorSnapshot(door),
+        actor: auth.session.name,
+      }], auth.session.publisherId);
+    });
+
+    return jsonResponse({
+      message: 'Door permanently deleted',
+      buildingId,
+      purgedDoorId: door.idDoor,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('DELETE');
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { doorSnapshot, recordAudit } from '@/lib/audit';
+import { forbiddenResponse } from '@/lib/congregation';
+import { serializeDoor } from '@/lib/doors';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// POST: Bring a single door back from the recycle bin
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; doorId: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:delete');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const buildingId = parseId(id);
+    const parsedDoorId = parseId(doorId);
+    if (buildingId === null || parsedDoorId === null) {
+      return jsonResponse({ error: 'Invalid building or door ID' }, 400);
+    }
+
+    const door = await prisma.door.findFirst({
+      where: { idDoor: parsedDoorId, building_id: buildingId, deletedAt: { not: null } },
+      include: { Building: true },
+    });
+
+    if (!door) {
+      return jsonResponse({ error: 'Door not found in the recycle bin' }, 404);
+    }
+    if (door.id_cong_app !== auth.session.congregationId) {
+      return forbiddenResponse();
+    }
+    if (door.Building?.deletedAt) {
+      return jsonResponse({ error: 'The building of this door is deleted; restore the building first' }, 409);
+    }
+
+    const now = new Date();
+    const restored = await prisma.$transaction(async tx => {
+      const row = await tx.door.update({
+        where: { idDoor: door.idDoor },
+        data: { deletedAt: null, deletedBy: null },
+      });
+      await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { last_modified: now },
+      });
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'door',
+        entityId: door.idDoor,
+        buildingId,
+        action: 'restore',
+        after: doorSnapshot(row),
+        actor: auth.session.name,
+      }], auth.session.publisherId);
+      return row;
+    });
+
+    return jsonResponse({
+      message: 'Door restored successfully',
+      buildingId,
+      door: serializeDoor(restored),
+    });
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
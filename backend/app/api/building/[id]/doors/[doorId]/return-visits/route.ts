@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { findDoor } from '@/lib/doors';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findPublisher } from '@/lib/publishers';
+import { WITH_DOOR, parseReturnVisitInput, serializeReturnVisit } from '@/lib/returnVisits';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string; doorId: string }> };
+
+// POST: Schedule a return visit at a door ({ dueDate, publisherId?, notes?, visitId? }).
+// It goes to the publisher linked to the caller's login unless publisherId names
+// another one from the roster, which needs assignments:manage. Doors marked
+// do-not-call cannot be scheduled.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'visits:log');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    if (door.dnc_at) {
+      return jsonResponse({ error: 'This door asked not to be called' }, 409);
+    }
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseReturnVisitInput(JSON.parse(body), false);
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const publisherId = input.publisherId ?? auth.session.publisherId;
+    if (publisherId !== auth.session.publisherId) {
+      const denied = requirePermission(auth.session, 'assignments:manage');
+      if (denied) return denied;
+    }
+    if (publisherId === null) {
+      return jsonResponse({ error: 'publisherId is required when your login is not linked to a publisher' }, 400);
+    }
+    const publisher = await findPublisher(prisma, auth.session, publisherId);
+    if ('response' in publisher) return publisher.response;
+
+    if (input.visitId) {
+      const visit = await prisma.doorVisit.findFirst({
+        where: { id: input.visitId, door_id: door.idDoor },
+      });
+      if (!visit) {
+        return jsonResponse({ error: `Visit ${input.visitId} was not logged at this door` }, 400);
+      }
+    }
+
+    const returnVisit = await prisma.returnVisit.create({
+      data: {
+        door_id: door.idDoor,
+        congregation_id: door.id_cong_app,
+        publisher_id: publisherId,
+        visit_id: input.visitId ?? null,
+        due_date: input.dueDate!,
+        notes: input.notes ?? null,
+        created_by: auth.session.name,
+      },
+      include: WITH_DOOR,
+    });
+
+    return jsonResponse({
+      message: 'Return visit scheduled',
+      buildingId,
+      returnVisit: serializeReturnVisit(returnVisit),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { doorSnapshot, recordAudit } from '@/lib/audit';
+import {
+  LANGUAGE_STATUSES,
+  findDoor,
+  isLanguageStatus,
+  languageStatusData,
+  serializeDoor,
+} from '@/lib/doors';
+import { resolveLanguages } from '@/lib/languages';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string; doorId: string }> };
+
+// PATCH: Update the label, language (by name or languageId) and/or languageStatus of a
+// single door. Changing the language without a languageStatus makes it suspected again.
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:edit');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const { label, language, languageId, languageStatus } = JSON.parse(body);
+    const data: Prisma.DoorUncheckedUpdateInput = {};
+
+    if (label !== undefined) {
+      if (typeof label !== 'string' || label.trim() === '') {
+        return jsonResponse({ error: 'label must be a non-empty string' }, 400);
+      }
+      data.information_name = label.trim();
+    }
+    if (languageId !== undefined && !Number.isInteger(languageId)) {
+      return jsonResponse({ error: 'languageId must be an integer' }, 400);
+    }
+    if (language !== undefined && languageId === undefined && (typeof language !== 'string' || language.trim() === '')) {
+      return jsonResponse({ error: 'language must be a non-empty string' }, 400);
+    }
+    if (languageStatus !== undefined && !isLanguageStatus(languageStatus)) {
+      return jsonResponse({ error: `languageStatus must be one of ${LANGUAGE_STATUSES.join(', ')}` }, 400);
+    }
+    if (language !== undefined || languageId !== undefined) {
+      const resolved = await resolveLanguages(prisma, door.id_cong_app, [
+        languageId !== undefined ? { languageId } : { language: language.trim() },
+      ]);
+      if ('error' in resolved) {
+        return jsonResponse({ error: resolved.error }, 400);
+      }
+      data.language = resolved[0].name;
+      data.id_cong_lang = resolved[0].idLanguage;
+    }
+
+    if (Object.keys(data).length === 0 && languageStatus === undefined) {
+      return jsonResponse({ error: 'Nothing to update' }, 400);
+    }
+
+    const languageChanged = data.id_cong_lang !== undefined && data.id_cong_lang !== door.id_cong_lang;
+    const status = languageStatus ?? (languageChanged ? 'suspected' : undefined);
+    const statusChanged = status !== undefined && status !== door.language_status;
+
+    const unchanged =
+      (data.information_name === undefined || data.information_name === door.information_name) &&
+      (data.id_cong_lang === undefined || (data.id_cong_lang === door.id_cong_lang && data.language === door.language)) &&
+      !statusChanged;
+    if (unchanged) {
+      return jsonResponse({ message: 'Door unchanged', buildingId, door: serializeDoor(door) });
+    }
+
+    const now = new Date();
+    if (statusChanged) {
+      Object.assign(data, languageStatusData(status, auth.session.name, now));
+    }
+    const updated = await prisma.$transaction(async tx => {
+      const updatedDoor = await tx.door.update({
+        where: { idDoor: door.idDoor },
+        data: { ...data, lastModified: now, updatedAt: now },
+      });
+
+      await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { last_modified: now },
+      });
+
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'door',
+        entityId: door.idDoor,
+        buildingId,
+        action: 'update',
+        before: doorSnapshot(door),
+        after: doorSnapshot(updatedDoor),
+        actor: auth.session.name,
+      }], auth.session.publisherId);
+
+      return updatedDoor;
+    });
+
+    return jsonResponse({
+      message: 'Door updated successfully',
+      buildingId,
+      door: serializeDoor(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Move a single door to the recycle bin
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:delete');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    const now = new Date();
+    const deletedBy = auth.session.name;
+    await prisma.$transaction(async tx => {
+      await tx.door.update({
+        where: { idDoor: door.idDoor },
+        data: { deletedAt: now, deletedBy },
+      });
+      await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { last_modified: now },
+      });
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'door',
+        entityId: door.idDoor,
+        buildingId,
+        action: 'delete',
+        before: doorSnapshot(door),
+        actor: deletedBy,
+      }], auth.session.publisherId);
+    });
+
+    return jsonResponse({
+      message: 'Door moved to the recycle bin',
+      buildingId,
+      deletedDoorId: door.idDoor,
+      deletedBy,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PATCH, DELETE');
+}
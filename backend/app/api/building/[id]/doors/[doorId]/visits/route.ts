@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { findDoor, markDoNotCall, setLanguageStatus, type LanguageStatus } from '@/lib/doors';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findPublisher } from '@/lib/publishers';
+import { WITH_PUBLISHER, parseVisitInput, serializeVisit, type VisitOutcome } from '@/lib/visits';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string; doorId: string }> };
+
+// Outcomes that settle the door's language in person
+const LANGUAGE_OUTCOMES: Partial<Record<VisitOutcome, LanguageStatus>> = {
+  language_confirmed: 'confirmed',
+  wrong_language: 'not_this_language',
+};
+
+// GET: Every call logged at a door, most recent first
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    const visits = await prisma.doorVisit.findMany({
+      where: { door_id: door.idDoor },
+      orderBy: [{ visitedAt: 'desc' }, { id: 'desc' }],
+      include: WITH_PUBLISHER,
+    });
+
+    return jsonResponse({
+      buildingId,
+      doorId: door.idDoor,
+      visits: visits.map(serializeVisit),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST: Log a call at a door ({ outcome, notes?, publisherId?, visitedAt? }). The call
+// is attributed to the publisher linked to the caller's login unless publisherId
+// names another one from the roster, or is null for someone not on it. A do_not_call
+// outcome also marks the door do-not-call, with the notes as the reason, and the
+// language_confirmed and wrong_language outcomes set the door's language status.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'visits:log');
+    if (denied) return denied;
+
+    const { id, doorId } = await params;
+    const found = await findDoor(prisma, auth.session, id, doorId);
+    if ('response' in found) return found.response;
+    const { buildingId, door } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseVisitInput(JSON.parse(body));
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    let publisherId = auth.session.publisherId;
+    if (input.publisherId !== undefined) {
+      publisherId = input.publisherId;
+      if (publisherId !== null) {
+        const publisher = await findPublisher(prisma, auth.session, publisherId);
+        if ('response' in publisher) return publisher.response;
+      }
+    }
+
+    const languageStatus = LANGUAGE_OUTCOMES[input.outcome];
+    const visit = await prisma.$transaction(async tx => {
+      if (languageStatus && languageStatus !== door.language_status) {
+        await setLanguageStatus(tx, door, languageStatus, auth.session.name, auth.session.publisherId);
+      }
+      if (input.outcome === 'do_not_call' && !door.dnc_at) {
+        await markDoNotCall(
+          tx,
+          door,
+          { reason: input.notes, markedAt: input.visitedAt, reviewAfter: null },
+          auth.session.name,
+          auth.session.publisherId
+        );
+      }
+
+      return tx.doorVisit.create({
+        data: {
+          door_id: door.idDoor,
+          congregation_id: door.id_cong_app,
+          publisher_id: publisherId,
+          outcome: input.outcome,
+          notes: input.notes,
+          recorded_by: auth.session.name,
+          ...(input.visitedAt && { visitedAt: input.visitedAt }),
+        },
+        include: WITH_PUBLISHER,
+      });
+    });
+
+    return jsonResponse({
+      message: 'Visit logged successfully',
+      buildingId,
+      visit: serializeVisit(visit),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
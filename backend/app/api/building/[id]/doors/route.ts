@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { doorSnapshot, recordAudit } from '@/lib/audit';
+import { checkCongregationId, findBuildingForWrite } from '@/lib/congregation';
+import { languageStatusData, parseDoor, resolveDoorLanguages, serializeDoor } from '@/lib/doors';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// GET: List the doors of a building
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const buildingId = parseId(id);
+    if (buildingId === null) {
+      return jsonResponse({ error: 'Invalid building ID' }, 400);
+    }
+
+    const building = await prisma.building.findFirst({
+      where: { idBuilding: buildingId, deletedAt: null, congregation_id: auth.session.congregationId },
+      include: { Door: { where: { deletedAt: null }, orderBy: { idDoor: 'asc' } } },
+    });
+
+    if (!building) {
+      return jsonResponse({ error: 'Building not found' }, 404);
+    }
+
+    return jsonResponse({
+      buildingId,
+      doors: building.Door.map(serializeDoor),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST: Add a single door to a building, leaving its other doors untouched
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:edit');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const buildingId = parseId(id);
+    if (buildingId === null) {
+      return jsonResponse({ error: 'Invalid building ID' }, 400);
+    }
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const data = JSON.parse(body);
+    const door = parseDoor(data);
+    if ('error' in door) {
+      return jsonResponse({ error: door.error }, 400);
+    }
+    if (door.id !== undefined) {
+      return jsonResponse({ error: 'door.id must not be set when adding a door' }, 400);
+    }
+
+    const found = await findBuildingForWrite(prisma, auth.session, buildingId, { deletedAt: null });
+    if ('response' in found) return found.response;
+
+    const rejected = checkCongregationId(auth.session, data.congregationId);
+    if (rejected) return rejected;
+
+    const congregationId = auth.session.congregationId;
+    const resolved = await resolveDoorLanguages(prisma, congregationId, [door]);
+    if ('error' in resolved) {
+      return jsonResponse({ error: resolved.error }, 400);
+    }
+    const [newDoorData] = resolved;
+
+    const created = await prisma.$transaction(async tx => {
+      const newDoor = await tx.door.create({
+        data: {
+          language: newDoorData.language,
+          information_name: newDoorData.label,
+          building_id: buildingId,
+          id_cong_app: congregationId,
+          id_cong_lang: newDoorData.languageId,
+          ...(newDoorData.languageStatus && languageStatusData(newDoorData.languageStatus, auth.session.name)),
+        },
+      });
+
+      await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { last_modified: new Date() },
+      });
+
+      await recordAudit(tx, congregationId, [{
+        entity: 'door',
+        entityId: newDoor.idDoor,
+        buildingId,
+        action: 'create',
+        after: doorSnapshot(newDoor),
+        actor: auth.session.name,
+      }], auth.session.publisherId);
+
+      return newDoor;
+    });
+
+    return jsonResponse({
+      message: 'Door added successfully',
+      buildingId,
+      door: serializeDoor(created),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
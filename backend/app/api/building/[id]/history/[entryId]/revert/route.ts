@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient, type Building, type Door, type Prisma } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import {
+  buildingSnapshot,
+  doorSnapshot,
+  recordAudit,
+  type AuditEntry,
+  type BuildingSnapshot,
+  type DoorSnapshot,
+} from '@/lib/audit';
+import { findBuildingForWrite } from '@/lib/congregation';
+import { resolveDoorLanguages, serializeDoor, syncDoors } from '@/lib/doors';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// Thrown inside the transaction so a revert that cannot be applied is rolled back
+class RevertError extends Error {}
+
+// Rebuilds the building fields and its set of active doors as they were right
+// after audit entry `entryId`, by undoing every newer entry on top of the current state
+async function versionAfter(
+  tx: Prisma.TransactionClient,
+  building: Building,
+  activeDoors: Door[],
+  entryId: number
+) {
+  const newer = await tx.auditLog.findMany({
+    where: { building_id: building.idBuilding, id: { gt: entryId } },
+    orderBy: { id: 'desc' },
+  });
+
+  let fields = buildingSnapshot(building);
+  const doors = new Map<number, DoorSnapshot>(activeDoors.map(door => [door.idDoor, doorSnapshot(door)]));
+
+  for (const entry of newer) {
+    if (entry.entity === 'building') {
+      if ((entry.action === 'update' || entry.action === 'revert') && entry.before) {
+        fields = entry.before as unknown as BuildingSnapshot;
+      }
+      continue;
+    }
+
+    // A purge always follows a delete, which already takes the door back
+    if (entry.action === 'create' || entry.action === 'restore') {
+      doors.delete(entry.entity_id);
+    } else if ((entry.action === 'update' || entry.action === 'delete') && entry.before) {
+      doors.set(entry.entity_id, entry.before as unknown as DoorSnapshot);
+    }
+  }
+
+  return { fields, doors };
+}
+
+// POST: Revert a building and its doors to the version right after a history entry.
+// The revert is itself recorded, so it can be reverted in turn.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; entryId: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:delete');
+    if (denied) return denied;
+
+    const { id, entryId } = await params;
+    const buildingId = parseId(id);
+    const parsedEntryId = parseId(entryId);
+    if (buildingId === null || parsedEntryId === null) {
+      return jsonResponse({ error: 'Invalid building or history entry ID' }, 400);
+    }
+
+    const found = await findBuildingForWrite(prisma, auth.session, buildingId, { deletedAt: null });
+    if ('response' in found) return found.response;
+    const { building } = found;
+
+    const congregationId = auth.session.congregationId;
+    const entry = await prisma.auditLog.findFirst({
+      where: { id: parsedEntryId, building_id: buildingId, congregation_id: congregationId },
+    });
+    if (!entry) {
+      return jsonResponse({ error: 'History entry not found' }, 404);
+    }
+
+    const actor = auth.session.name;
+    const result = await prisma.$transaction(async tx => {
+      const allDoors = await tx.door.findMany({ where: { building_id: buildingId } });
+      const activeDoors = allDoors.filter(door => !door.deletedAt);
+      const target = await versionAfter(tx, building, activeDoors, parsedEntryId);
+
+      // Doors deleted since that version come back from the recycle bin first; purged
+      // ones no longer exist and are created again under a new id
+      const doorsById = new Map(allDoors.map(door => [door.idDoor, door]));
+      const toRestore = Array.from(target.doors.keys())
+        .map(doorId => doorsById.get(doorId))
+        .filter((door): door is Door => !!door && !!door.deletedAt);
+
+      if (toRestore.length > 0) {
+        await tx.door.updateMany({
+          where: { idDoor: { in: toRestore.map(door => door.idDoor) } },
+          data: { deletedAt: null, deletedBy: null },
+        });
+        await recordAudit(tx, congregationId, toRestore.map((door): AuditEntry => ({
+          entity: 'door',
+          entityId: door.idDoor,
+          buildingId,
+          action: 'restore',
+          after: doorSnapshot(door),
+          actor,
+        })), auth.session.publisherId);
+      }
+
+      const doors = await resolveDoorLanguages(
+        tx,
+        congregationId,
+        Array.from(target.doors.entries()).map(([doorId, door]) => ({
+          ...(doorsById.has(doorId) && { id: doorId }),
+          label: door.label,
+          languageId: door.languageId,
+        }))
+      );
+      if ('error' in doors) {
+        throw new RevertError(`Cannot revert: ${doors.error}`);
+      }
+
+      const doorChanges = await syncDoors(tx, buildingId, doors, congregationId, actor, auth.session.publisherId);
+      if ('error' in doorChanges) {
+        throw new RevertError(doorChanges.error);
+      }
+
+      const updated = await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { ...target.fields, last_modified: new Date() },
+      });
+
+      await recordAudit(tx, congregationId, [{
+        entity: 'building',
+        entityId: buildingId,
+        buildingId,
+        action: 'revert',
+        before: buildingSnapshot(building),
+        after: buildingSnapshot(updated),
+        actor,
+      }], auth.session.publisherId);
+
+      const savedDoors = await tx.door.findMany({
+        where: { building_id: buildingId, deletedAt: null },
+        orderBy: { idDoor: 'asc' },
+      });
+
+      return { doorChanges: { ...doorChanges, restored: toRestore.length }, doors: savedDoors };
+    });
+
+    return jsonResponse({
+      message: 'Building reverted successfully',
+      buildingId,
+      revertedTo: parsedEntryId,
+      doorChanges: result.doorChanges,
+      doors: result.doors.map(serializeDoor),
+    });
+  } catch (error) {
+    if (error instanceof RevertError) {
+      return jsonResponse({ error: error.message }, 409);
+    }
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { serializeAuditEntry } from '@/lib/audit';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// GET: Change history of a building and its doors, newest first. Also available
+// for buildings in the recycle bin or already purged; only entries recorded in the
+// session's congregation are returned.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const buildingId = parseId(id);
+    if (buildingId === null) {
+      return jsonResponse({ error: 'Invalid building ID' }, 400);
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return jsonResponse({ error: `Invalid limit, expected 1-${MAX_LIMIT}` }, 400);
+    }
+
+    const entries = await prisma.auditLog.findMany({
+      where: { building_id: buildingId, congregation_id: auth.session.congregationId },
+      orderBy: { id: 'desc' },
+      take: limit,
+      include: { Publisher: true },
+    });
+
+    return jsonResponse({
+      buildingId,
+      entries: entries.map(serializeAuditEntry),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
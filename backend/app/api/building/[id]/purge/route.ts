@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { buildingSnapshot, recordAudit } from '@/lib/audit';
+import { findBuildingForWrite } from '@/lib/congregation';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// DELETE: Permanently remove a building that is in the recycle bin, with all its doors
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:purge');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const buildingId = parseId(id);
+    if (buildingId === null) {
+      return jsonResponse({ error: 'Invalid building ID' }, 400);
+    }
+
+    const found = await findBuildingForWrite(prisma, auth.session, buildingId);
+    if ('response' in found) return found.response;
+    const { building } = found;
+    if (!building.deletedAt) {
+      return jsonResponse({ error: 'Only buildings in the recycle bin can be purged' }, 409);
+    }
+
+    // The audit history is kept: AuditLog has no foreign key to Building
+    await prisma.$transaction(async tx => {
+      await tx.door.deleteMany({ where: { building_id: buildingId } });
+      await tx.building.delete({ where: { idBuilding: buildingId } });
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'building',
+        entityId: buildingId,
+        buildingId,
+        action: 'purge',
+        before: buildingSnapshot(building),
+        actor: auth.session.name,
+      }], auth.session.publisherId);
+    });
+
+    return jsonResponse({
+      message: 'Building permanently deleted',
+      purgedBuildingId: buildingId,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('DELETE');
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { buildingSnapshot, recordAudit } from '@/lib/audit';
+import { findBuildingForWrite } from '@/lib/congregation';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// POST: Bring a building back from the recycle bin together with its doors
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:delete');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const buildingId = parseId(id);
+    if (buildingId === null) {
+      return jsonResponse({ error: 'Invalid building ID' }, 400);
+    }
+
+    const found = await findBuildingForWrite(
+      prisma,
+      auth.session,
+      buildingId,
+      { deletedAt: { not: null } },
+      'Building not found in the recycle bin'
+    );
+    if ('response' in found) return found.response;
+    const { building } = found;
+
+    // Bump last_modified so the restored building shows up in the recent listings again
+    await prisma.$transaction(async tx => {
+      await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { deletedAt: null, deletedBy: null, last_modified: new Date() },
+      });
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'building',
+        entityId: buildingId,
+        buildingId,
+        action: 'restore',
+        after: buildingSnapshot(building),
+        actor: auth.session.name,
+      }], auth.session.publisherId);
+    });
+
+    return jsonResponse({
+      message: 'Building restored successfully',
+      restoredBuildingId: buildingId,
+    });
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
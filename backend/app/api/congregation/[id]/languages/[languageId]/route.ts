@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient, type Language } from '@prisma/client';
+import { requireSession, type Session } from '@/lib/auth';
+import { checkCongregationId } from '@/lib/congregation';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { parseLanguageInput, serializeLanguage } from '@/lib/languages';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string; languageId: string }> };
+
+// Resolves both route ids and loads the language, making sure it belongs to the
+// congregation, which has to be the session's
+async function findLanguage(
+  session: Session,
+  params: RouteParams['params']
+): Promise<{ response: NextResponse } | { language: Language }> {
+  const { id, languageId } = await params;
+  const congregationId = parseId(id);
+  const parsedLanguageId = parseId(languageId);
+  if (congregationId === null || parsedLanguageId === null) {
+    return { response: jsonResponse({ error: 'Invalid congregation or language ID' }, 400) };
+  }
+
+  const rejected = checkCongregationId(session, congregationId);
+  if (rejected) return { response: rejected };
+
+  const language = await prisma.language.findFirst({
+    where: { idLanguage: parsedLanguageId, id_cong_app: congregationId },
+  });
+
+  if (!language) {
+    return { response: jsonResponse({ error: 'Language not found' }, 404) };
+  }
+
+  return { language };
+}
+
+// PATCH: Rename a language and/or change its pin colour
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'languages:manage');
+    if (denied) return denied;
+
+    const found = await findLanguage(auth.session, params);
+    if ('response' in found) return found.response;
+    const { language } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseLanguageInput(JSON.parse(body), true);
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    if (input.name !== undefined && input.name !== language.name) {
+      const clash = await prisma.language.findFirst({
+        where: {
+          id_cong_app: language.id_cong_app,
+          name: input.name,
+          idLanguage: { not: language.idLanguage },
+        },
+      });
+      if (clash) {
+        return jsonResponse({ error: `Language "${clash.name}" already exists` }, 409);
+      }
+    }
+
+    // Doors and the congregation's main language keep a copy of the name, so a
+    // rename is applied to them as well
+    const updated = await prisma.$transaction(async tx => {
+      const row = await tx.language.update({
+        where: { idLanguage: language.idLanguage },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.color !== undefined && { Color: input.color }),
+          ...(input.colorHex !== undefined && { colorHex: input.colorHex }),
+          updatedAt: new Date(),
+        },
+        include: { _count: { select: { Door: { where: { deletedAt: null } } } } },
+      });
+
+      if (input.name !== undefined && input.name !== language.name) {
+        await tx.door.updateMany({
+          where: { id_cong_lang: language.idLanguage },
+          data: { language: input.name },
+        });
+        await tx.congregation.updateMany({
+          where: { idCongregation: language.id_cong_app, language: language.name },
+          data: { language: input.name },
+        });
+      }
+
+      return row;
+    });
+
+    return jsonResponse({
+      message: 'Language updated successfully',
+      language: serializeLanguage(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Remove a language that no door uses any more
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'languages:manage');
+    if (denied) return denied;
+
+    const found = await findLanguage(auth.session, params);
+    if ('response' in found) return found.response;
+    const { language } = found;
+
+    const congregation = await prisma.congregation.findUnique({
+      where: { idCongregation: language.id_cong_app },
+    });
+    if (congregation?.language?.toLowerCase() === language.name.toLowerCase()) {
+      return jsonResponse({
+        error: `Language "${language.name}" is the congregation's main language and cannot be deleted`,
+      }, 409);
+    }
+
+    // Doors in the recycle bin still reference the language until they are purged
+    const doorCount = await prisma.door.count({
+      where: { id_cong_lang: language.idLanguage },
+    });
+    if (doorCount > 0) {
+      return jsonResponse({
+        error: `Language "${language.name}" is used by ${doorCount} door(s), including any in the recycle bin, and cannot be deleted`,
+        doorCount,
+      }, 409);
+    }
+
+    await prisma.language.delete({
+      where: { idLanguage: language.idLanguage },
+    });
+
+    return jsonResponse({
+      message: 'Language deleted successfully',
+      deletedLanguageId: language.idLanguage,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PATCH, DELETE');
+}
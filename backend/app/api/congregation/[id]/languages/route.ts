@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { checkCongregationId } from '@/lib/congregation';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { parseLanguageInput, serializeLanguage } from '@/lib/languages';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// GET: List a congregation's languages with the number of doors using each
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const congregationId = parseId(id);
+    if (congregationId === null) {
+      return jsonResponse({ error: 'Invalid congregation ID' }, 400);
+    }
+
+    const rejected = checkCongregationId(auth.session, congregationId);
+    if (rejected) return rejected;
+
+    const languages = await prisma.language.findMany({
+      where: { id_cong_app: congregationId },
+      include: { _count: { select: { Door: { where: { deletedAt: null } } } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return jsonResponse({
+      congregationId,
+      languages: languages.map(serializeLanguage),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST: Add a language to a congregation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'languages:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const congregationId = parseId(id);
+    if (congregationId === null) {
+      return jsonResponse({ error: 'Invalid congregation ID' }, 400);
+    }
+
+    const rejected = checkCongregationId(auth.session, congregationId);
+    if (rejected) return rejected;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseLanguageInput(JSON.parse(body));
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const congregation = await prisma.congregation.findUnique({
+      where: { idCongregation: congregationId },
+    });
+    if (!congregation) {
+      return jsonResponse({ error: 'Congregation not found' }, 404);
+    }
+
+    const existing = await prisma.language.findFirst({
+      where: { id_cong_app: congregationId, name: input.name },
+    });
+    if (existing) {
+      return jsonResponse({ error: `Language "${existing.name}" already exists` }, 409);
+    }
+
+    // id_cong_lang numbers the languages within a congregation
+    const last = await prisma.language.aggregate({
+      where: { id_cong_app: congregationId },
+      _max: { id_cong_lang: true },
+    });
+
+    const language = await prisma.language.create({
+      data: {
+        id_cong_app: congregationId,
+        id_cong_lang: (last._max.id_cong_lang ?? 0) + 1,
+        name: input.name!,
+        Color: input.color ?? null,
+        colorHex: input.colorHex ?? null,
+      },
+    });
+
+    return jsonResponse({
+      message: 'Language created successfully',
+      language: serializeLanguage({ ...language, _count: { Door: 0 } }),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import {
+  checkCongregationId,
+  mapCenterData,
+  parseCongregationInput,
+  serializeCongregation,
+} from '@/lib/congregation';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { resolveLanguages } from '@/lib/languages';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET: The session congregation's settings: name, main language and map centre
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const congregationId = parseId(id);
+    if (congregationId === null) {
+      return jsonResponse({ error: 'Invalid congregation ID' }, 400);
+    }
+
+    const rejected = checkCongregationId(auth.session, congregationId);
+    if (rejected) return rejected;
+
+    const congregation = await prisma.congregation.findUnique({
+      where: { idCongregation: congregationId },
+    });
+    if (!congregation) {
+      return jsonResponse({ error: 'Congregation not found' }, 404);
+    }
+
+    return jsonResponse({ congregation: serializeCongregation(congregation) });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// PATCH: Rename the congregation, change its main language (one of its languages)
+// and/or move its map centre (null removes it)
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'congregation:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const congregationId = parseId(id);
+    if (congregationId === null) {
+      return jsonResponse({ error: 'Invalid congregation ID' }, 400);
+    }
+
+    const rejected = checkCongregationId(auth.session, congregationId);
+    if (rejected) return rejected;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseCongregationInput(JSON.parse(body), true);
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    let language: string | undefined;
+    if (input.language !== undefined) {
+      const resolved = await resolveLanguages(prisma, congregationId, [{ language: input.language }]);
+      if ('error' in resolved) {
+        return jsonResponse({ error: resolved.error }, 400);
+      }
+      language = resolved[0].name;
+    }
+
+    const congregation = await prisma.congregation.update({
+      where: { idCongregation: congregationId },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(language !== undefined && { language }),
+        ...(input.mapCenter !== undefined && mapCenterData(input.mapCenter)),
+        updatedAt: new Date(),
+      },
+    });
+
+    return jsonResponse({
+      message: 'Congregation updated successfully',
+      congregation: serializeCongregation(congregation),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, PATCH');
+}
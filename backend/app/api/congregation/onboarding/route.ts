@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { hashPassword, parseAccountInput, serializeSession, signToken } from '@/lib/auth';
+import { mapCenterData, parseCongregationInput, serializeCongregation } from '@/lib/congregation';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { DEFAULT_LANGUAGE_PALETTE, parseLanguageList } from '@/lib/languages';
+
+const prisma = new PrismaClient();
+
+// Congregation numbers are stored in an unsigned MEDIUMINT
+const MAX_CONGREGATION_NUMBER = 16777215;
+
+// When ONBOARDING_CODE is set, new congregations need it, so that only those given
+// the code can set one up
+const onboardingCode = () => process.env.ONBOARDING_CODE || null;
+
+// GET: What the onboarding wizard needs before it starts: the default language
+// palette and whether a setup code is asked for
+export async function GET(): Promise<NextResponse> {
+  return jsonResponse({
+    languages: DEFAULT_LANGUAGE_PALETTE,
+    setupCodeRequired: onboardingCode() !== null,
+  });
+}
+
+// POST: Set up a new congregation: the Congregation row with its main language and
+// map centre, its languages (the default palette when left out) and its first
+// admin, who is signed in. Body: { congregationNumber, name, language, mapCenter,
+// languages?, admin: { name, email, password, whatsapp? }, setupCode? }
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const data = JSON.parse(body);
+    const code = onboardingCode();
+    if (code !== null && data?.setupCode !== code) {
+      return jsonResponse({ error: 'Invalid setup code' }, 403);
+    }
+
+    const { congregationNumber } = data;
+    if (!Number.isInteger(congregationNumber) || congregationNumber < 1 || congregationNumber > MAX_CONGREGATION_NUMBER) {
+      return jsonResponse({ error: 'congregationNumber must be a positive integer' }, 400);
+    }
+
+    const input = parseCongregationInput(data);
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const languages = data.languages === undefined
+      ? DEFAULT_LANGUAGE_PALETTE
+      : parseLanguageList(data.languages);
+    if ('error' in languages) {
+      return jsonResponse({ error: languages.error }, 400);
+    }
+
+    // The main language is stored with the spelling of its Language row
+    const mainLanguage = languages.find(language => language.name!.toLowerCase() === input.language!.toLowerCase());
+    if (!mainLanguage) {
+      return jsonResponse({ error: `language must be one of the congregation's languages` }, 400);
+    }
+
+    const account = parseAccountInput(data.admin);
+    if ('error' in account) {
+      return jsonResponse({ error: `admin: ${account.error}` }, 400);
+    }
+
+    const existingCongregation = await prisma.congregation.findUnique({
+      where: { idCongregation: congregationNumber },
+    });
+    if (existingCongregation) {
+      return jsonResponse({ error: `Congregation ${congregationNumber} is already set up` }, 409);
+    }
+
+    const existingLogin = await prisma.login.findUnique({ where: { email: account.email } });
+    if (existingLogin) {
+      return jsonResponse({ error: 'An account with this email already exists' }, 409);
+    }
+
+    const password = await hashPassword(account.password);
+    const { congregation, login } = await prisma.$transaction(async tx => {
+      const congregation = await tx.congregation.create({
+        data: {
+          idCongregation: congregationNumber,
+          name: input.name,
+          language: mainLanguage.name,
+          ...mapCenterData(input.mapCenter!),
+        },
+      });
+
+      // id_cong_lang numbers the languages within a congregation
+      await tx.language.createMany({
+        data: languages.map((language, index) => ({
+          id_cong_app: congregationNumber,
+          id_cong_lang: index + 1,
+          name: language.name!,
+          Color: language.color ?? null,
+          colorHex: language.colorHex ?? null,
+        })),
+      });
+
+      const login = await tx.login.create({
+        data: {
+          name: account.name,
+          email: account.email,
+          password,
+          whatsapp: account.whatsapp,
+          congregationNumber,
+          updatedAt: new Date(),
+          loginCount: 1,
+          role: 'admin',
+        },
+      });
+
+      return { congregation, login };
+    });
+
+    return jsonResponse({
+      message: 'Congregation set up successfully',
+      token: signToken(login),
+      user: serializeSession(login),
+      congregation: serializeCongregation(congregation),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
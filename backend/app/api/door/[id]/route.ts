@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { buildingSnapshot, recordAudit } from '@/lib/audit';
+import { checkCongregationId, checkTerritory, congregationLanguage, findBuildingForWrite } from '@/lib/congregation';
+import { parseDoors, resolveDoorLanguages, serializeDoor, syncDoors } from '@/lib/doors';
+import { buildingPin } from '@/lib/languages';
+import { requirePermission } from '@/lib/permissions';
 
 const prisma = new PrismaClient();
 
@@ -7,21 +13,10 @@ interface RequestData {
   lat: number;
   long: number;
   language?: string;
-  numberOfDoors?: number;
-  info?: string;
+  doors?: unknown;
   address?: string;
-  territory_id?: number;
+  territory_id?: number | null;
   congregationId?: number;
-  pinColor?: number;
-  pinImage?: string;
-}
-
-interface DoorData {
-  language: string;
-  information_name: string | undefined;
-  building_id: number;
-  id_cong_app: number;
-  id_cong_lang: number;
 }
 
 // Helper to stringify BigInt and format response
@@ -31,73 +26,19 @@ function safeStringify(obj: unknown): string {
   );
 }
 
-// GET: Fetch from Building_v_24h view
-export async function GET(): Promise<NextResponse> {
+// GET: Fetch a single building of the session's congregation with its territory and doors
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
   try {
-    // Query the Building_v_24h view that joins with Language table for color
-    const buildings = await prisma.building_v_24h.findMany({
-      select: {
-        id: true,
-        lat: true,
-        long: true,
-        address: true,
-        last_modified: true,
-        numberOfDoors: true,
-        info: true,
-        language: true,
-        congregationId: true,
-        pinColor: true,
-        pinImage: true
-      }
-    });
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
 
-    // Transform the data to match your expected output format
-    const transformedBuildings = buildings.map(building => ({
-      id: Number(building.id),
-      lat: Number(building.lat),
-      long: Number(building.long),
-      address: building.address || "Example Address",
-      last_modified: building.last_modified,
-      numberOfDoors: String(building.numberOfDoors || 1),
-      info: building.info || "No info available",
-      language: building.language || "Tamil",
-      congregationId: Number(building.congregationId),
-      pinColor: Number(building.pinColor),
-      pinImage: building.pinImage || "/pins/pin1.png"
-    }));
-
-    console.log(`Found ${transformedBuildings.length} buildings in last 24 hours`);
-    
-    return new NextResponse(safeStringify(transformedBuildings), {
-      status: 200,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Content-Type': 'application/json',
-      },
-    });
-  } catch (error) {
-    console.error('GET Error:', error);
-    return new NextResponse(JSON.stringify({ 
-      error: 'Internal Server Error', 
-      details: error instanceof Error ? error.message : 'Unknown error'
-    }), {
-      status: 500,
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Content-Type': 'application/json',
-      },
-    });
-  } finally {
-    await prisma.$disconnect();
-  }
-}
-
-// POST: Create building + doors
-export async function POST(request: NextRequest): Promise<NextResponse> {
-  try {
-    const body = await request.text();
-    if (!body) {
-      return new NextResponse(JSON.stringify({ error: 'Empty body' }), {
+    const { id } = await params;
+    const buildingId = parseInt(id, 10);
+    if (isNaN(buildingId)) {
+      return new NextResponse(JSON.stringify({ error: 'Invalid building ID' }), {
         status: 400,
         headers: {
           'Access-Control-Allow-Origin': '*',
@@ -106,21 +47,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       });
     }
 
-    const data: RequestData = JSON.parse(body);
-    const {
-      lat,
-      long,
-      language = 'Tamil',
-      numberOfDoors = 1,
-      info = '',
-      address = '',
-      territory_id = 1,
-      congregationId = 1,
-    } = data;
+    const building = await prisma.building.findFirst({
+      where: { idBuilding: buildingId, deletedAt: null, congregation_id: auth.session.congregationId },
+      include: {
+        Territory: true,
+        Door: { where: { deletedAt: null }, include: { Language: true }, orderBy: { idDoor: 'asc' } },
+      },
+    });
 
-    if (typeof lat !== 'number' || typeof long !== 'number') {
-      return new NextResponse(JSON.stringify({ error: 'Invalid coordinates' }), {
-        status: 400,
+    if (!building) {
+      return new NextResponse(JSON.stringify({ error: 'Building not found' }), {
+        status: 404,
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Content-Type': 'application/json',
@@ -128,52 +65,44 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       });
     }
 
-    // Create building with current timestamp
-    const building = await prisma.building.create({
-      data: {
-        lat,
-        long,
-        address,
-        territory_id,
-        last_modified: new Date(),
-      },
-    });
-
-    // Create doors - split info by comma for multiple doors
-    const doorInfoArray = info.split(',').map((i) => i.trim());
-    const doors: DoorData[] = Array.from({ length: Math.max(numberOfDoors, doorInfoArray.length) }).map(
-      (_, i) => ({
-        language,
-        information_name: doorInfoArray[i] || `Door ${i + 1} info`,
-        building_id: building.idBuilding,
-        id_cong_app: congregationId,
-        id_cong_lang: 1, // You may need to adjust this based on your Language table
-      })
-    );
-
-    await prisma.door.createMany({ data: doors });
+    // Pin colour follows the same rule as the building list: the Language row of the
+    // building's predominant door language
+    const pin = buildingPin(building.Door);
 
-    console.log(`Created building ${building.idBuilding} with ${doors.length} doors`);
+    const doors = building.Door.map(serializeDoor);
 
-    // Return success response
-    return new NextResponse(
-      JSON.stringify({
-        message: 'Building and doors created successfully',
-        buildingId: building.idBuilding,
-        doorsCreated: doors.length,
-        language: language,
-        congregationId: congregationId
-      }),
-      {
-        status: 201,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+    const result = {
+      id: building.idBuilding,
+      lat: Number(building.lat),
+      long: Number(building.long),
+      address: building.address || '',
+      last_modified: building.last_modified,
+      territory_id: building.territory_id,
+      territory: building.Territory
+        ? {
+            id: building.Territory.idTerritory,
+            name: building.Territory.name,
+            congregationId: building.Territory.congregation_id,
+          }
+        : null,
+      doors,
+      numberOfDoors: String(doors.length),
+      language: pin.language,
+      congregationId: building.congregation_id,
+      pinColor: pin.pinColor,
+      pinColorHex: pin.pinColorHex,
+      pinImage: pin.pinImage,
+    };
+
+    return new NextResponse(safeStringify(result), {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+    });
   } catch (error) {
-    console.error('POST Error:', error);
+    console.error('GET Error:', error);
     return new NextResponse(JSON.stringify({ 
       error: 'Internal Server Error', 
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -195,6 +124,11 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:edit');
+    if (denied) return denied;
+
     const { id } = await params;
     const buildingId = parseInt(id, 10);
     if (isNaN(buildingId)) {
@@ -222,12 +156,8 @@ export async function PUT(
     const {
       lat,
       long,
-      language = 'Tamil',
-      numberOfDoors = 1,
-      info = '',
       address = '',
-      territory_id = 1,
-      congregationId = 1,
+      territory_id,
     } = data;
 
     if (typeof lat !== 'number' || typeof long !== 'number') {
@@ -240,14 +170,24 @@ export async function PUT(
       });
     }
 
-    // Check if building exists
-    const existingBuilding = await prisma.building.findUnique({
-      where: { idBuilding: buildingId },
-    });
-
-    if (!existingBuilding) {
-      return new NextResponse(JSON.stringify({ error: 'Building not found' }), {
-        status: 404,
+    // Check if building exists and belongs to the session's congregation
+    const found = await findBuildingForWrite(prisma, auth.session, buildingId, { deletedAt: null });
+    if ('response' in found) return found.response;
+    const existingBuilding = found.building;
+
+    const congregationId = auth.session.congregationId;
+    const rejected = checkCongregationId(auth.session, data.congregationId)
+      ?? await checkTerritory(prisma, auth.session, territory_id);
+    if (rejected) return rejected;
+
+    const language = data.language || await congregationLanguage(prisma, congregationId);
+    const parsedDoors = parseDoors(data.doors, language);
+    const doors = 'error' in parsedDoors
+      ? parsedDoors
+      : await resolveDoorLanguages(prisma, congregationId, parsedDoors);
+    if ('error' in doors) {
+      return new NextResponse(JSON.stringify({ error: doors.error }), {
+        status: 400,
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Content-Type': 'application/json',
@@ -255,45 +195,74 @@ export async function PUT(
       });
     }
 
-    // Update building with current timestamp
-    const updatedBuilding = await prisma.building.update({
-      where: { idBuilding: buildingId },
-      data: {
-        lat,
-        long,
-        address,
-        territory_id,
-        last_modified: new Date(),
-      },
+    // Leaving doors out of the list moves them to the recycle bin, which needs the delete permission
+    const keptDoorIds = doors.flatMap(door => (door.id !== undefined ? [door.id] : []));
+    const removedDoors = await prisma.door.count({
+      where: { building_id: buildingId, deletedAt: null, idDoor: { notIn: keptDoorIds } },
     });
+    const cannotRemove = removedDoors > 0 && requirePermission(auth.session, 'buildings:delete');
+    if (cannotRemove) return cannotRemove;
+
+    // Update building with current timestamp and apply the door list by id,
+    // so doors that did not change keep their identity and lastModified
+    const actor = auth.session.name;
+    const doorChanges = await prisma.$transaction(async tx => {
+      const changes = await syncDoors(tx, buildingId, doors, congregationId, actor, auth.session.publisherId);
+      if ('error' in changes) return changes;
+
+      const updatedBuilding = await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: {
+          lat,
+          long,
+          address,
+          territory_id,
+          last_modified: new Date(),
+        },
+      });
 
-    // Delete existing doors for this building
-    await prisma.door.deleteMany({
-      where: { building_id: buildingId },
+      const before = buildingSnapshot(existingBuilding);
+      const after = buildingSnapshot(updatedBuilding);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        await recordAudit(tx, congregationId, [{
+          entity: 'building',
+          entityId: buildingId,
+          buildingId,
+          action: 'update',
+          before,
+          after,
+          actor,
+        }], auth.session.publisherId);
+      }
+
+      return changes;
     });
 
-    // Create new doors based on the updated info
-    const doorInfoArray = info.split(',').map((i) => i.trim());
-    const doorsToCreate: DoorData[] = Array.from({ length: Math.max(numberOfDoors, doorInfoArray.length) }).map(
-      (_, i) => ({
-        language,
-        information_name: doorInfoArray[i] || `Door ${i + 1} info`,
-        building_id: buildingId,
-        id_cong_app: congregationId,
-        id_cong_lang: 1, // This should match the Language table entry for proper pinColor/pinImage
-      })
-    );
+    if ('error' in doorChanges) {
+      return new NextResponse(JSON.stringify({ error: doorChanges.error }), {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      });
+    }
 
-    await prisma.door.createMany({ data: doorsToCreate });
+    const savedDoors = await prisma.door.findMany({
+      where: { building_id: buildingId, deletedAt: null },
+      orderBy: { idDoor: 'asc' },
+    });
 
-    console.log(`Updated building ${updatedBuilding.idBuilding} with ${doorsToCreate.length} doors`);
+    console.log(`Updated building ${buildingId} with ${savedDoors.length} doors`, doorChanges);
 
     // Return success response
     return new NextResponse(
-      JSON.stringify({
+      safeStringify({
         message: 'Building and doors updated successfully',
-        buildingId: updatedBuilding.idBuilding,
-        doorsUpdated: doorsToCreate.length,
+        buildingId: buildingId,
+        doorsUpdated: savedDoors.length,
+        doorChanges,
+        doors: savedDoors.map(serializeDoor),
         language: language,
         congregationId: congregationId
       }),
@@ -322,12 +291,17 @@ export async function PUT(
   }
 }
 
-// DELETE: Delete building + doors
+// DELETE: Move a building and its doors to the recycle bin (see /api/building/[id]/restore and /purge)
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<NextResponse> {
   try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:delete');
+    if (denied) return denied;
+
     const { id } = await params;
     const buildingId = parseInt(id, 10);
     if (isNaN(buildingId)) {
@@ -340,35 +314,32 @@ export async function DELETE(
       });
     }
 
-    // Check if building exists
-    const existingBuilding = await prisma.building.findUnique({
-      where: { idBuilding: buildingId },
-      include: { Door: true },
-    });
-
-    if (!existingBuilding) {
-      return new NextResponse(JSON.stringify({ error: 'Building not found' }), {
-        status: 404,
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Content-Type": "application/json",
-        },
+    // Check if building exists and belongs to the session's congregation
+    const found = await findBuildingForWrite(prisma, auth.session, buildingId, { deletedAt: null });
+    if ('response' in found) return found.response;
+    const existingBuilding = found.building;
+
+    // Soft delete: the doors stay attached and come back with the building on restore
+    const deletedBy = auth.session.name;
+    await prisma.$transaction(async tx => {
+      await tx.building.update({
+        where: { idBuilding: buildingId },
+        data: { deletedAt: new Date(), deletedBy },
       });
-    }
-
-    // Delete doors first (due to foreign key constraint)
-    await prisma.door.deleteMany({
-      where: { building_id: buildingId },
-    });
-
-    // Delete the building
-    await prisma.building.delete({
-      where: { idBuilding: buildingId },
+      await recordAudit(tx, auth.session.congregationId, [{
+        entity: 'building',
+        entityId: buildingId,
+        buildingId,
+        action: 'delete',
+        before: buildingSnapshot(existingBuilding),
+        actor: deletedBy,
+      }], auth.session.publisherId);
     });
 
     return new NextResponse(JSON.stringify({ 
-      message: 'Building deleted successfully',
-      deletedBuildingId: buildingId 
+      message: 'Building moved to the recycle bin',
+      deletedBuildingId: buildingId,
+      deletedBy,
     }), {
       status: 200,
       headers: {
@@ -396,8 +367,8 @@ export async function OPTIONS(): Promise<NextResponse> {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
\ No newline at end of file
@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { buildingSnapshot, doorSnapshot, recordAudit } from '@/lib/audit';
+import { checkCongregationId, checkTerritory, congregationLanguage } from '@/lib/congregation';
+import { findDuplicateBuildings } from '@/lib/duplicates';
+import { LANGUAGE_STATUSES, isLanguageStatus, languageStatusData, parseDoors, resolveDoorLanguages, serializeDoor } from '@/lib/doors';
+import { requirePermission } from '@/lib/permissions';
+import { buildingPin } from '@/lib/languages';
+import { findBoundedTerritories, matchTerritory } from '@/lib/territories';
 
 const prisma = new PrismaClient();
 
@@ -7,19 +15,12 @@ interface RequestData {
   lat: number;
   long: number;
   language?: string;
-  numberOfDoors?: number;
-  info?: string;
+  doors?: unknown;
   address?: string;
-  territory_id?: number;
+  territory_id?: number | null;
   congregationId?: number;
-}
-
-interface DoorData {
-  language: string;
-  information_name: string | undefined;
-  building_id: number;
-  id_cong_app: number;
-  id_cong_lang: number;
+  // Skips the duplicate check after the user chose to create the building anyway
+  allowDuplicate?: boolean;
 }
 
 // Helper to stringify BigInt and format response
@@ -29,44 +30,164 @@ function safeStringify(obj: unknown): string {
   );
 }
 
-// GET: Fetch from Building_v_24h view
-export async function GET(): Promise<NextResponse> {
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+// Parses an ISO date query parameter; returns undefined when absent and null when invalid
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (value === null || value === '') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Parses an integer query parameter; returns undefined when absent and null when invalid
+function parseIntParam(value: string | null): number | null | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+interface ListQuery {
+  where: Prisma.BuildingWhereInput;
+  limit: number;
+  cursor?: number;
+}
+
+// Builds the Building where-clause and page options from the query string, or returns an error message.
+// Only buildings of `congregationId` (the session's congregation) are ever listed.
+function parseListQuery(searchParams: URLSearchParams, congregationId: number): ListQuery | { error: string } {
+  // Buildings and doors in the recycle bin are never listed
+  const where: Prisma.BuildingWhereInput = { deletedAt: null, congregation_id: congregationId };
+  const doorFilters: Prisma.DoorWhereInput = {};
+
+  // since defaults to the last 24 hours (the old Building_v_24h window); since=all removes the lower bound
+  const sinceParam = searchParams.get('since');
+  let since = sinceParam === 'all' ? undefined : parseDateParam(sinceParam);
+  const until = parseDateParam(searchParams.get('until'));
+  if (since === null) return { error: 'Invalid since date' };
+  if (until === null) return { error: 'Invalid until date' };
+  if (since === undefined && sinceParam !== 'all') {
+    since = new Date(Date.now() - DEFAULT_WINDOW_MS);
+  }
+
+  if (since || until) {
+    where.last_modified = {
+      ...(since && { gte: since }),
+      ...(until && { lte: until }),
+    };
+  }
+
+  const bbox = searchParams.get('bbox');
+  if (bbox) {
+    const parts = bbox.split(',').map(part => Number(part.trim()));
+    const [minLng, minLat, maxLng, maxLat] = parts;
+    if (parts.length !== 4 || parts.some(isNaN) || minLng > maxLng || minLat > maxLat) {
+      return { error: 'Invalid bbox, expected minLng,minLat,maxLng,maxLat' };
+    }
+    where.lat = { gte: minLat, lte: maxLat };
+    where.long = { gte: minLng, lte: maxLng };
+  }
+
+  const territoryId = parseIntParam(searchParams.get('territoryId'));
+  if (territoryId === null) return { error: 'Invalid territoryId' };
+  if (territoryId !== undefined) where.territory_id = territoryId;
+
+  const language = searchParams.get('language');
+  if (language) doorFilters.language = language;
+
+  const languageStatus = searchParams.get('languageStatus');
+  if (languageStatus) {
+    if (!isLanguageStatus(languageStatus)) {
+      return { error: `Invalid languageStatus, expected ${LANGUAGE_STATUSES.join(', ')}` };
+    }
+    doorFilters.language_status = languageStatus;
+  }
+
+  if (Object.keys(doorFilters).length > 0) {
+    where.Door = { some: { ...doorFilters, deletedAt: null } };
+  }
+
+  const limitParam = parseIntParam(searchParams.get('limit'));
+  const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : limitParam;
+  if (limit === null || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `Invalid limit, expected 1-${MAX_PAGE_SIZE}` };
+  }
+
+  const cursor = parseIntParam(searchParams.get('cursor'));
+  if (cursor === null) return { error: 'Invalid cursor' };
+
+  return { where, limit, cursor };
+}
+
+// GET: Query the session congregation's Building/Door by time window, bounding box, language, language
+// status and territory.
+// Results are paged newest first: pass the returned nextCursor as ?cursor= to get the next page.
+export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    // Query the Building_v_24h view that joins with Language table for color
-    const buildings = await prisma.building_v_24h.findMany({
-      select: {
-        id: true,
-        lat: true,
-        long: true,
-        address: true,
-        last_modified: true,
-        numberOfDoors: true,
-        info: true,
-        language: true,
-        congregationId: true,
-        pinColor: true,
-        pinImage: true
-      }
-    });
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const query = parseListQuery(request.nextUrl.searchParams, auth.session.congregationId);
+    if ('error' in query) {
+      return new NextResponse(JSON.stringify({ error: query.error }), {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Fetch one extra row to know whether another page follows
+    const [total, rows] = await Promise.all([
+      prisma.building.count({ where: query.where }),
+      prisma.building.findMany({
+        where: query.where,
+        include: {
+          Door: { where: { deletedAt: null }, include: { Language: true }, orderBy: { idDoor: 'asc' } },
+        },
+        orderBy: [{ last_modified: 'desc' }, { idBuilding: 'desc' }],
+        take: query.limit + 1,
+        ...(query.cursor !== undefined && { cursor: { idBuilding: query.cursor }, skip: 1 }),
+      }),
+    ]);
+    const buildings = rows.slice(0, query.limit);
+    const nextCursor = rows.length > query.limit ? buildings[buildings.length - 1].idBuilding : null;
 
     // Transform the data to match your expected output format
-    const transformedBuildings = buildings.map(building => ({
-      id: Number(building.id),
-      lat: Number(building.lat),
-      long: Number(building.long),
-      address: building.address || "Example Address",
-      last_modified: building.last_modified,
-      numberOfDoors: String(building.numberOfDoors || 1),
-      info: building.info || "No info available",
-      language: building.language || "Tamil",
-      congregationId: Number(building.congregationId),
-      pinColor: Number(building.pinColor),
-      pinImage: building.pinImage || "/pins/pin1.png"
-    }));
-
-    console.log(`Found ${transformedBuildings.length} buildings in last 24 hours`);
+    const transformedBuildings = buildings.map(building => {
+      // Pin colour comes from the Language row of the building's predominant door language
+      const pin = buildingPin(building.Door);
+
+      return {
+        id: building.idBuilding,
+        lat: Number(building.lat),
+        long: Number(building.long),
+        address: building.address || "Example Address",
+        last_modified: building.last_modified,
+        territory_id: building.territory_id,
+        numberOfDoors: String(building.Door.length),
+        doors: building.Door.map(door => {
+          const {
+            id, label, language, languageId, languageStatus, languageConfirmedBy, languageConfirmedAt, doNotCall,
+          } = serializeDoor(door);
+          return {
+            id, label, language, languageId, languageStatus, languageConfirmedBy, languageConfirmedAt, doNotCall,
+          };
+        }),
+        doNotCallCount: building.Door.filter(door => door.dnc_at !== null).length,
+        language: pin.language,
+        congregationId: building.congregation_id,
+        pinColor: pin.pinColor,
+        pinColorHex: pin.pinColorHex,
+        pinImage: pin.pinImage
+      };
+    });
+
+    console.log(`Found ${transformedBuildings.length} of ${total} buildings`);
     
-    return new NextResponse(safeStringify(transformedBuildings), {
+    return new NextResponse(safeStringify({ buildings: transformedBuildings, total, nextCursor }), {
       status: 200,
       headers: {
         'Access-Control-Allow-Origin': '*',
@@ -90,9 +211,15 @@ export async function GET(): Promise<NextResponse> {
   }
 }
 
-// POST: Create building + doors
+// POST: Create building + doors. Unless allowDuplicate is set, a live building nearby with a
+// similar address is answered with 409 and the candidates instead.
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:edit');
+    if (denied) return denied;
+
     const body = await request.text();
     if (!body) {
       return new NextResponse(JSON.stringify({ error: 'Empty body' }), {
@@ -108,12 +235,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const {
       lat,
       long,
-      language = 'Tamil',
-      numberOfDoors = 1,
-      info = '',
       address = '',
-      territory_id = 1,
-      congregationId = 1,
+      territory_id,
     } = data;
 
     if (typeof lat !== 'number' || typeof long !== 'number') {
@@ -126,41 +249,109 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       });
     }
 
-    // Create building with current timestamp
-    const building = await prisma.building.create({
-      data: {
-        lat,
-        long,
-        address,
-        territory_id,
-        last_modified: new Date(),
-      },
-    });
+    // The building always goes to the session's congregation
+    const congregationId = auth.session.congregationId;
+    const rejected = checkCongregationId(auth.session, data.congregationId)
+      ?? await checkTerritory(prisma, auth.session, territory_id);
+    if (rejected) return rejected;
 
-    // Create doors - split info by comma for multiple doors
-    const doorInfoArray = info.split(',').map((i) => i.trim());
-    const doors: DoorData[] = Array.from({ length: Math.max(numberOfDoors, doorInfoArray.length) }).map(
-      (_, i) => ({
-        language,
-        information_name: doorInfoArray[i] || `Door ${i + 1} info`,
-        building_id: building.idBuilding,
-        id_cong_app: congregationId,
-        id_cong_lang: 1, // You may need to adjust this based on your Language table
-      })
-    );
+    const language = data.language || await congregationLanguage(prisma, congregationId);
+    const parsedDoors = parseDoors(data.doors, language);
+    const doors = 'error' in parsedDoors
+      ? parsedDoors
+      : await resolveDoorLanguages(prisma, congregationId, parsedDoors);
+    if ('error' in doors) {
+      return new NextResponse(JSON.stringify({ error: doors.error }), {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    if (data.allowDuplicate !== true) {
+      const duplicates = await findDuplicateBuildings(prisma, congregationId, lat, long, address);
+      if (duplicates.length > 0) {
+        return new NextResponse(safeStringify({
+          error: 'A building with a similar address already exists nearby',
+          duplicates,
+        }), {
+          status: 409,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+    }
+
+    // Without a territory_id the building goes to the territory whose boundary
+    // contains it; an explicit null keeps it out of every territory
+    const assignment = territory_id === undefined
+      ? matchTerritory(await findBoundedTerritories(prisma, congregationId), lat, long)
+      : null;
+
+    // Create building with current timestamp, together with its doors
+    const actor = auth.session.name;
+    const building = await prisma.$transaction(async tx => {
+      const created = await tx.building.create({
+        data: {
+          lat,
+          long,
+          address,
+          territory_id: assignment ? assignment.territoryId : territory_id,
+          congregation_id: congregationId,
+          last_modified: new Date(),
+          Door: {
+            create: doors.map(door => ({
+              language: door.language,
+              information_name: door.label,
+              id_cong_app: congregationId,
+              id_cong_lang: door.languageId,
+              ...(door.languageStatus && languageStatusData(door.languageStatus, actor)),
+            })),
+          },
+        },
+        include: { Door: { orderBy: { idDoor: 'asc' } } },
+      });
+
+      await recordAudit(tx, congregationId, [
+        {
+          entity: 'building',
+          entityId: created.idBuilding,
+          buildingId: created.idBuilding,
+          action: 'create',
+          after: buildingSnapshot(created),
+          actor,
+        },
+        ...created.Door.map(door => ({
+          entity: 'door' as const,
+          entityId: door.idDoor,
+          buildingId: created.idBuilding,
+          action: 'create' as const,
+          after: doorSnapshot(door),
+          actor,
+        })),
+      ], auth.session.publisherId);
 
-    await prisma.door.createMany({ data: doors });
+      return created;
+    });
 
-    console.log(`Created building ${building.idBuilding} with ${doors.length} doors`);
+    console.log(`Created building ${building.idBuilding} with ${building.Door.length} doors`);
 
     // Return success response
     return new NextResponse(
-      JSON.stringify({
+      safeStringify({
         message: 'Building and doors created successfully',
         buildingId: building.idBuilding,
-        doorsCreated: doors.length,
+        doorsCreated: building.Door.length,
+        doors: building.Door.map(serializeDoor),
         language: language,
-        congregationId: congregationId
+        congregationId: congregationId,
+        territoryId: building.territory_id,
+        // null when the client chose the territory itself
+        territoryAssignment: assignment
       }),
       {
         status: 201,
@@ -194,7 +385,7 @@ export async function OPTIONS(): Promise<NextResponse> {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findPublisher, parsePublisherInput, serializePublisher } from '@/lib/publishers';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// PATCH: Rename a publisher. Ledger rows keep the name they were recorded with;
+// reports show the current name.
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'publishers:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const found = await findPublisher(prisma, auth.session, id);
+    if ('response' in found) return found.response;
+    const { publisher } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parsePublisherInput(JSON.parse(body));
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const clash = await prisma.publisher.findFirst({
+      where: {
+        congregation_id: publisher.congregation_id,
+        name: input.name,
+        idPublisher: { not: publisher.idPublisher },
+      },
+    });
+    if (clash) {
+      return jsonResponse({ error: `Publisher "${clash.name}" already exists` }, 409);
+    }
+
+    const updated = await prisma.publisher.update({
+      where: { idPublisher: publisher.idPublisher },
+      data: { name: input.name, updatedAt: new Date() },
+      include: { Login: true },
+    });
+
+    return jsonResponse({
+      message: 'Publisher updated successfully',
+      publisher: serializePublisher(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Remove a publisher from the roster. Its login is unlinked, and the
+// assignments and changes attributed to it keep the recorded names.
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'publishers:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const found = await findPublisher(prisma, auth.session, id);
+    if ('response' in found) return found.response;
+    const { publisher } = found;
+
+    await prisma.publisher.delete({
+      where: { idPublisher: publisher.idPublisher },
+    });
+
+    return jsonResponse({
+      message: 'Publisher deleted successfully',
+      deletedPublisherId: publisher.idPublisher,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PATCH, DELETE');
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { parsePublisherInput, serializePublisher } from '@/lib/publishers';
+
+const prisma = new PrismaClient();
+
+// GET: The session congregation's publisher roster, with the login linked to each
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const publishers = await prisma.publisher.findMany({
+      where: { congregation_id: auth.session.congregationId },
+      orderBy: { name: 'asc' },
+      include: { Login: true },
+    });
+
+    return jsonResponse({ publishers: publishers.map(serializePublisher) });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST: Add a publisher to the session congregation's roster
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'publishers:manage');
+    if (denied) return denied;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parsePublisherInput(JSON.parse(body));
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const existing = await prisma.publisher.findFirst({
+      where: { congregation_id: auth.session.congregationId, name: input.name },
+    });
+    if (existing) {
+      return jsonResponse({ error: `Publisher "${existing.name}" already exists` }, 409);
+    }
+
+    const publisher = await prisma.publisher.create({
+      data: {
+        name: input.name,
+        congregation_id: auth.session.congregationId,
+      },
+    });
+
+    return jsonResponse({
+      message: 'Publisher created successfully',
+      publisher: serializePublisher(publisher),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
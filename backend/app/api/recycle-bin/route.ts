@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 500;
+
+// GET: List the session congregation's soft-deleted buildings and doors, most recently
+// deleted first. Doors of a deleted building are listed with the building, not on their own.
+// Like restoring, this needs buildings:delete.
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'buildings:delete');
+    if (denied) return denied;
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return jsonResponse({ error: `Invalid limit, expected 1-${MAX_LIMIT}` }, 400);
+    }
+
+    const { congregationId } = auth.session;
+    const buildingWhere: Prisma.BuildingWhereInput = {
+      deletedAt: { not: null },
+      congregation_id: congregationId,
+    };
+    const doorWhere: Prisma.DoorWhereInput = {
+      deletedAt: { not: null },
+      id_cong_app: congregationId,
+      Building: { deletedAt: null },
+    };
+
+    const [buildings, doors] = await Promise.all([
+      prisma.building.findMany({
+        where: buildingWhere,
+        include: { _count: { select: { Door: { where: { deletedAt: null } } } } },
+        orderBy: { deletedAt: 'desc' },
+        take: limit,
+      }),
+      prisma.door.findMany({
+        where: doorWhere,
+        include: { Building: { select: { idBuilding: true, address: true, lat: true, long: true } } },
+        orderBy: { deletedAt: 'desc' },
+        take: limit,
+      }),
+    ]);
+
+    return jsonResponse({
+      buildings: buildings.map(building => ({
+        id: building.idBuilding,
+        lat: Number(building.lat),
+        long: Number(building.long),
+        address: building.address || '',
+        numberOfDoors: building._count.Door,
+        deletedAt: building.deletedAt,
+        deletedBy: building.deletedBy,
+      })),
+      doors: doors.map(door => ({
+        id: door.idDoor,
+        label: door.information_name || '',
+        language: door.language,
+        buildingId: door.building_id,
+        buildingAddress: door.Building?.address || '',
+        deletedAt: door.deletedAt,
+        deletedBy: door.deletedBy,
+      })),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
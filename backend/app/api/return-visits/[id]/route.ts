@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findPublisher } from '@/lib/publishers';
+import { WITH_DOOR, findReturnVisit, parseReturnVisitInput, serializeReturnVisit } from '@/lib/returnVisits';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// PATCH: Reschedule, reassign or annotate a return visit, or mark it made
+// ({ completed: true }). Only its publisher and those who manage assignments may, and
+// only the latter may give it to another publisher or leave it unassigned.
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const found = await findReturnVisit(prisma, auth.session, id);
+    if ('response' in found) return found.response;
+    const { returnVisit } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseReturnVisitInput(JSON.parse(body), true);
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    if (input.publisherId !== undefined && input.publisherId !== returnVisit.publisher_id) {
+      const denied = requirePermission(auth.session, 'assignments:manage');
+      if (denied) return denied;
+    }
+    if (input.publisherId !== undefined && input.publisherId !== null) {
+      const publisher = await findPublisher(prisma, auth.session, input.publisherId);
+      if ('response' in publisher) return publisher.response;
+    }
+
+    const data: Prisma.ReturnVisitUncheckedUpdateInput = { updatedAt: new Date() };
+    if (input.dueDate) data.due_date = input.dueDate;
+    if (input.publisherId !== undefined) data.publisher_id = input.publisherId;
+    if (input.notes !== undefined) data.notes = input.notes;
+    if (input.completed !== undefined) {
+      data.completedAt = input.completed ? returnVisit.completedAt ?? new Date() : null;
+    }
+
+    const updated = await prisma.returnVisit.update({
+      where: { id: returnVisit.id },
+      data,
+      include: WITH_DOOR,
+    });
+
+    return jsonResponse({
+      message: 'Return visit updated successfully',
+      returnVisit: serializeReturnVisit(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Call off a return visit
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const found = await findReturnVisit(prisma, auth.session, id);
+    if ('response' in found) return found.response;
+    const { returnVisit } = found;
+
+    await prisma.returnVisit.delete({ where: { id: returnVisit.id } });
+
+    return jsonResponse({
+      message: 'Return visit deleted successfully',
+      deletedReturnVisitId: returnVisit.id,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PATCH, DELETE');
+}
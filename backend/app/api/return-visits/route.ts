@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findPublisher } from '@/lib/publishers';
+import { WITH_DOOR, serializeReturnVisit, startOfToday } from '@/lib/returnVisits';
+
+const prisma = new PrismaClient();
+
+// GET: A publisher's open return visits, earliest due first: the session's own
+// publisher by default, or ?publisherId= for those who manage assignments. Return
+// visits at doors in the recycle bin are left out.
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    let publisherId = auth.session.publisherId;
+    const publisherParam = request.nextUrl.searchParams.get('publisherId');
+    if (publisherParam !== null) {
+      const parsed = parseId(publisherParam);
+      if (parsed === null) {
+        return jsonResponse({ error: 'Invalid publisherId' }, 400);
+      }
+      if (parsed !== auth.session.publisherId) {
+        const denied = requirePermission(auth.session, 'assignments:manage');
+        if (denied) return denied;
+        const found = await findPublisher(prisma, auth.session, parsed);
+        if ('response' in found) return found.response;
+      }
+      publisherId = parsed;
+    }
+
+    if (publisherId === null) {
+      return jsonResponse({ publisherId: null, returnVisits: [] });
+    }
+
+    const rows = await prisma.returnVisit.findMany({
+      where: {
+        publisher_id: publisherId,
+        congregation_id: auth.session.congregationId,
+        completedAt: null,
+        Door: { deletedAt: null, Building: { deletedAt: null } },
+      },
+      orderBy: [{ due_date: 'asc' }, { id: 'asc' }],
+      include: WITH_DOOR,
+    });
+
+    const today = startOfToday();
+    return jsonResponse({
+      publisherId,
+      returnVisits: rows.map(row => serializeReturnVisit(row, today)),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
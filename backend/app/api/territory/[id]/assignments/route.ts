@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import {
+  CHECKED_IN,
+  CHECKED_OUT,
+  WITH_PUBLISHER,
+  latestAssignments,
+  parseCheckoutInput,
+  publisherName,
+  serializeAssignment,
+  serializeStatus,
+} from '@/lib/assignments';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findPublisher } from '@/lib/publishers';
+import { findTerritory } from '@/lib/territories';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET: A territory's assignment ledger, most recent change first, with its current status
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { id } = await params;
+    const found = await findTerritory(prisma, auth.session, id);
+    if ('response' in found) return found.response;
+    const { territory } = found;
+
+    const rows = await prisma.gPS_VR2_STRUCTURE.findMany({
+      where: { territory_id: territory.idTerritory },
+      orderBy: [{ Statut_time: 'desc' }, { id: 'desc' }],
+      include: WITH_PUBLISHER,
+    });
+
+    return jsonResponse({
+      territoryId: territory.idTerritory,
+      name: territory.name,
+      current: serializeStatus(rows[0]),
+      history: rows.map(serializeAssignment),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST: Check a territory out ({ status: "checked_out", publisherId?, publisherName?,
+// groupName? }) or back in ({ status: "checked_in" }). Each change adds a row to the
+// ledger; a publisherId from the roster also records the publisher's name.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'assignments:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const found = await findTerritory(prisma, auth.session, id);
+    if ('response' in found) return found.response;
+    const { territory } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const data = JSON.parse(body);
+    if (data?.status !== CHECKED_OUT && data?.status !== CHECKED_IN) {
+      return jsonResponse({ error: `status must be ${CHECKED_OUT} or ${CHECKED_IN}` }, 400);
+    }
+
+    const checkout = data.status === CHECKED_OUT ? parseCheckoutInput(data) : null;
+    if (checkout && 'error' in checkout) {
+      return jsonResponse({ error: checkout.error }, 400);
+    }
+    if (checkout?.publisherId) {
+      const publisher = await findPublisher(prisma, auth.session, checkout.publisherId);
+      if ('response' in publisher) return publisher.response;
+      checkout.publisherName = publisher.publisher.name;
+    }
+
+    const row = await prisma.$transaction(async tx => {
+      const latest = (await latestAssignments(tx, [territory.idTerritory])).get(territory.idTerritory);
+      const isOut = latest?.Statut === CHECKED_OUT;
+
+      if (checkout && isOut) {
+        return { error: `Territory is already checked out to ${publisherName(latest) || latest.group_name}` };
+      }
+      if (!checkout && !isOut) {
+        return { error: 'Territory is not checked out' };
+      }
+
+      // A check-in names whoever had the territory, so each row reads on its own
+      return tx.gPS_VR2_STRUCTURE.create({
+        data: {
+          id_cong: auth.session.congregationId,
+          territory_id: territory.idTerritory,
+          Terri: territory.name,
+          Statut: data.status,
+          publisher_id: checkout ? checkout.publisherId : latest!.publisher_id,
+          User_name: checkout ? checkout.publisherName : latest!.User_name,
+          group_name: checkout ? checkout.groupName : latest!.group_name,
+          Statut_time: new Date(),
+          recorded_by: auth.session.name,
+        },
+        include: WITH_PUBLISHER,
+      });
+    });
+
+    if ('error' in row) {
+      return jsonResponse({ error: row.error }, 409);
+    }
+
+    return jsonResponse({
+      message: row.Statut === CHECKED_OUT ? 'Territory checked out' : 'Territory checked in',
+      assignment: serializeAssignment(row),
+      current: serializeStatus(row),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient, type Territory } from '@prisma/client';
+import { requireSession, type Session } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import {
+  canManageTerritory,
+  countTerritoryContents,
+  findTerritory,
+  parseTerritoryInput,
+  serializeTerritory,
+} from '@/lib/territories';
+
+const prisma = new PrismaClient();
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// Loads a territory that is about to be changed: on top of findTerritory, 403 for
+// group overseers when it belongs to another group
+async function findTerritoryForWrite(
+  session: Session,
+  params: RouteParams['params']
+): Promise<{ response: NextResponse } | { territory: Territory }> {
+  const { id } = await params;
+  const found = await findTerritory(prisma, session, id);
+  if ('response' in found) return found;
+
+  if (!canManageTerritory(session, found.territory.group_name)) {
+    return { response: jsonResponse({ error: 'Group overseers can only manage the territories of their own group' }, 403) };
+  }
+  return found;
+}
+
+// PATCH: Rename a territory, move it to another service group and/or change its
+// boundary (null removes it)
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'territories:manage-group');
+    if (denied) return denied;
+
+    const found = await findTerritoryForWrite(auth.session, params);
+    if ('response' in found) return found.response;
+    const { territory } = found;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseTerritoryInput(JSON.parse(body), true);
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    if (input.groupName !== undefined && !canManageTerritory(auth.session, input.groupName)) {
+      return jsonResponse({ error: 'Group overseers cannot move a territory to another group' }, 403);
+    }
+
+    if (input.name !== undefined && input.name !== territory.name) {
+      const clash = await prisma.territory.findFirst({
+        where: {
+          congregation_id: territory.congregation_id,
+          name: input.name,
+          idTerritory: { not: territory.idTerritory },
+        },
+      });
+      if (clash) {
+        return jsonResponse({ error: `Territory "${clash.name}" already exists` }, 409);
+      }
+    }
+
+    const [updated, counts] = await Promise.all([
+      prisma.territory.update({
+        where: { idTerritory: territory.idTerritory },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.groupName !== undefined && { group_name: input.groupName }),
+          ...(input.boundary !== undefined && { boundary: input.boundary ?? Prisma.DbNull }),
+          updatedAt: new Date(),
+        },
+      }),
+      countTerritoryContents(prisma, auth.session.congregationId),
+    ]);
+
+    return jsonResponse({
+      message: 'Territory updated successfully',
+      territory: serializeTerritory(
+        updated,
+        counts.get(updated.idTerritory) ?? { buildingCount: 0, doorCount: 0 }
+      ),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Remove a territory that no building is in any more
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'territories:manage-group');
+    if (denied) return denied;
+
+    const found = await findTerritoryForWrite(auth.session, params);
+    if ('response' in found) return found.response;
+    const { territory } = found;
+
+    // Deleting a territory cascades to its buildings, so any building left in it,
+    // including those in the recycle bin, has to be moved out first
+    const buildingCount = await prisma.building.count({
+      where: { territory_id: territory.idTerritory },
+    });
+    if (buildingCount > 0) {
+      return jsonResponse({
+        error: `Territory "${territory.name}" still has ${buildingCount} building(s), including any in the recycle bin, and cannot be deleted`,
+        buildingCount,
+      }, 409);
+    }
+
+    await prisma.territory.delete({
+      where: { idTerritory: territory.idTerritory },
+    });
+
+    return jsonResponse({
+      message: 'Territory deleted successfully',
+      deletedTerritoryId: territory.idTerritory,
+    });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PATCH, DELETE');
+}
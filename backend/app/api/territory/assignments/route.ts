@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { latestAssignments, serializeStatus } from '@/lib/assignments';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+// GET: Current assignment status of every territory of the session's congregation:
+// who it is checked out to and since when, or since when it is back in
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const territories = await prisma.territory.findMany({
+      where: { congregation_id: auth.session.congregationId },
+      orderBy: { name: 'asc' },
+    });
+    const latest = await latestAssignments(prisma, territories.map(territory => territory.idTerritory));
+
+    return jsonResponse({
+      territories: territories.map(territory => ({
+        id: territory.idTerritory,
+        name: territory.name,
+        territoryGroupName: territory.group_name,
+        ...serializeStatus(latest.get(territory.idTerritory)),
+      })),
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
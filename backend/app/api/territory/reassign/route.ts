@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { buildingSnapshot, recordAudit, type AuditEntry } from '@/lib/audit';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+import { findBoundedTerritories, matchTerritory } from '@/lib/territories';
+
+const prisma = new PrismaClient();
+
+// POST: Re-assign every building of the session's congregation to the territory whose
+// boundary contains it, e.g. after boundaries were redrawn. Buildings that fall in
+// several territories or in none keep their territory and are listed for a manual
+// decision. With { "dryRun": true } nothing is saved.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'territories:manage');
+    if (denied) return denied;
+
+    const body = await request.text();
+    const { dryRun = false } = body ? JSON.parse(body) : {};
+    if (typeof dryRun !== 'boolean') {
+      return jsonResponse({ error: 'dryRun must be a boolean' }, 400);
+    }
+
+    const { congregationId } = auth.session;
+    const territories = await findBoundedTerritories(prisma, congregationId);
+    if (territories.length === 0) {
+      return jsonResponse({ error: 'No territory of the congregation has a boundary yet' }, 409);
+    }
+
+    const buildings = await prisma.building.findMany({
+      where: { congregation_id: congregationId, deletedAt: null },
+      orderBy: { idBuilding: 'asc' },
+    });
+
+    const moves: { buildingId: number; from: number | null; to: number }[] = [];
+    const ambiguous: { buildingId: number; address: string; territoryIds: number[] }[] = [];
+    const outside: { buildingId: number; address: string; territoryId: number | null }[] = [];
+
+    for (const building of buildings) {
+      const match = matchTerritory(territories, Number(building.lat), Number(building.long));
+      if (match.status === 'matched') {
+        if (match.territoryId !== building.territory_id) {
+          moves.push({ buildingId: building.idBuilding, from: building.territory_id, to: match.territoryId! });
+        }
+      } else if (match.status === 'ambiguous') {
+        ambiguous.push({
+          buildingId: building.idBuilding,
+          address: building.address || '',
+          territoryIds: match.candidateIds,
+        });
+      } else {
+        outside.push({
+          buildingId: building.idBuilding,
+          address: building.address || '',
+          territoryId: building.territory_id,
+        });
+      }
+    }
+
+    if (!dryRun && moves.length > 0) {
+      const byId = new Map(buildings.map(building => [building.idBuilding, building]));
+      const actor = auth.session.name;
+
+      // One update per target territory, so a whole congregation fits in one short
+      // transaction. last_modified is left alone: a move is not an edit of the
+      // building, and the audit log records it.
+      const byTarget = new Map<number, number[]>();
+      for (const move of moves) {
+        byTarget.set(move.to, [...(byTarget.get(move.to) || []), move.buildingId]);
+      }
+
+      const audit: AuditEntry[] = moves.map(move => {
+        const before = buildingSnapshot(byId.get(move.buildingId)!);
+        return {
+          entity: 'building',
+          entityId: move.buildingId,
+          buildingId: move.buildingId,
+          action: 'update',
+          before,
+          after: { ...before, territory_id: move.to },
+          actor,
+        };
+      });
+
+      await prisma.$transaction(async tx => {
+        for (const [territoryId, buildingIds] of byTarget) {
+          await tx.building.updateMany({
+            where: { idBuilding: { in: buildingIds }, congregation_id: congregationId },
+            data: { territory_id: territoryId },
+          });
+        }
+        await recordAudit(tx, congregationId, audit, auth.session.publisherId);
+      });
+    }
+
+    return jsonResponse({
+      message: dryRun
+        ? `${moves.length} building(s) would be re-assigned`
+        : `${moves.length} building(s) re-assigned`,
+      dryRun,
+      checked: buildings.length,
+      reassigned: moves,
+      ambiguous,
+      outside,
+    });
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('POST');
+}
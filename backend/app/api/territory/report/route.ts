@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { CHECKED_OUT, WITH_PUBLISHER, assignmentPeriods, type LedgerRow } from '@/lib/assignments';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STALE_MONTHS = 12;
+const MAX_STALE_MONTHS = 120;
+
+// A service year runs from September to August and is named after the year it ends in
+function currentServiceYear(now: Date): number {
+  return now.getMonth() >= 8 ? now.getFullYear() + 1 : now.getFullYear();
+}
+
+// GET: Territory assignment record (S-13) for a service year: per territory, who had
+// it and when it was assigned and completed, its last completion and the days since.
+// Territories that are in and not completed within `staleMonths` are flagged as stale.
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const now = new Date();
+    const searchParams = request.nextUrl.searchParams;
+
+    const yearParam = searchParams.get('serviceYear');
+    const serviceYear = yearParam === null ? currentServiceYear(now) : Number(yearParam);
+    if (!Number.isInteger(serviceYear) || serviceYear < 2000 || serviceYear > 2100) {
+      return jsonResponse({ error: 'Invalid serviceYear' }, 400);
+    }
+
+    const staleParam = searchParams.get('staleMonths');
+    const staleMonths = staleParam === null ? DEFAULT_STALE_MONTHS : Number(staleParam);
+    if (!Number.isInteger(staleMonths) || staleMonths < 1 || staleMonths > MAX_STALE_MONTHS) {
+      return jsonResponse({ error: `Invalid staleMonths, expected 1-${MAX_STALE_MONTHS}` }, 400);
+    }
+
+    const from = new Date(serviceYear - 1, 8, 1);
+    const to = new Date(serviceYear, 8, 1);
+    const staleBefore = new Date(now);
+    staleBefore.setMonth(staleBefore.getMonth() - staleMonths);
+
+    const territories = await prisma.territory.findMany({
+      where: { congregation_id: auth.session.congregationId },
+      orderBy: { name: 'asc' },
+    });
+    const rows = await prisma.gPS_VR2_STRUCTURE.findMany({
+      where: { territory_id: { in: territories.map(territory => territory.idTerritory) } },
+      orderBy: [{ Statut_time: 'asc' }, { id: 'asc' }],
+      include: WITH_PUBLISHER,
+    });
+
+    const rowsByTerritory = new Map<number, LedgerRow[]>();
+    for (const row of rows) {
+      const list = rowsByTerritory.get(row.territory_id!) ?? [];
+      list.push(row);
+      rowsByTerritory.set(row.territory_id!, list);
+    }
+
+    const report = territories.map(territory => {
+      const ledger = rowsByTerritory.get(territory.idTerritory) ?? [];
+      const periods = assignmentPeriods(ledger);
+      const isCheckedOut = ledger[ledger.length - 1]?.Statut === CHECKED_OUT;
+
+      const lastCompletedAt = periods.reduce<Date | null>(
+        (latest, period) =>
+          period.completedAt && (!latest || period.completedAt > latest) ? period.completedAt : latest,
+        null
+      );
+
+      return {
+        id: territory.idTerritory,
+        name: territory.name,
+        groupName: territory.group_name,
+        isCheckedOut,
+        lastCompletedAt,
+        daysSinceLastWorked: lastCompletedAt
+          ? Math.floor((now.getTime() - lastCompletedAt.getTime()) / DAY_MS)
+          : null,
+        stale: !isCheckedOut && (!lastCompletedAt || lastCompletedAt < staleBefore),
+        // Assignments that overlap the service year
+        assignments: periods.filter(period =>
+          period.assignedAt && period.assignedAt < to
+          && (!period.completedAt || period.completedAt >= from)
+        ),
+      };
+    });
+
+    return jsonResponse({
+      serviceYear,
+      from,
+      to,
+      staleMonths,
+      territories: report,
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireSession } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { can, requirePermission } from '@/lib/permissions';
+import {
+  canManageTerritory,
+  countTerritoryContents,
+  parseTerritoryInput,
+  serializeTerritory,
+} from '@/lib/territories';
+
+const prisma = new PrismaClient();
+
+const EMPTY_COUNTS = { buildingCount: 0, doorCount: 0 };
+
+// GET: List the session congregation's territories with the number of buildings and
+// doors in each, plus the buildings that have no territory yet
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+
+    const { congregationId } = auth.session;
+    const [territories, counts] = await Promise.all([
+      prisma.territory.findMany({
+        where: { congregation_id: congregationId },
+        orderBy: { name: 'asc' },
+      }),
+      countTerritoryContents(prisma, congregationId),
+    ]);
+
+    return jsonResponse({
+      territories: territories.map(territory =>
+        serializeTerritory(territory, counts.get(territory.idTerritory) ?? EMPTY_COUNTS)
+      ),
+      unassigned: counts.get(null) ?? EMPTY_COUNTS,
+    });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// POST: Add a territory to the session's congregation. Group overseers can only add
+// territories to their own group, which is the default for them.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'territories:manage-group');
+    if (denied) return denied;
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const input = parseTerritoryInput(JSON.parse(body));
+    if ('error' in input) {
+      return jsonResponse({ error: input.error }, 400);
+    }
+
+    const { session } = auth;
+    const groupName = input.groupName !== undefined || can(session.role, 'territories:manage')
+      ? input.groupName ?? null
+      : session.groupName;
+    if (!canManageTerritory(session, groupName)) {
+      return jsonResponse({ error: 'Group overseers can only manage the territories of their own group' }, 403);
+    }
+
+    const existing = await prisma.territory.findFirst({
+      where: { congregation_id: session.congregationId, name: input.name },
+    });
+    if (existing) {
+      return jsonResponse({ error: `Territory "${existing.name}" already exists` }, 409);
+    }
+
+    const territory = await prisma.territory.create({
+      data: {
+        name: input.name!,
+        group_name: groupName,
+        boundary: input.boundary ?? Prisma.DbNull,
+        congregation_id: session.congregationId,
+      },
+    });
+
+    return jsonResponse({
+      message: 'Territory created successfully',
+      territory: serializeTerritory(territory, EMPTY_COUNTS),
+    }, 201);
+  } catch (error) {
+    return serverErrorResponse('POST', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET, POST');
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { requireSession, serializeUser } from '@/lib/auth';
+import { jsonResponse, optionsResponse, parseId, serverErrorResponse } from '@/lib/http';
+import { ROLES, isRole, requirePermission } from '@/lib/permissions';
+import { findPublisher } from '@/lib/publishers';
+
+const prisma = new PrismaClient();
+
+// PATCH: Approve a self-registered login (approved: true), or change the role, service
+// group and/or linked publisher (null unlinks) of a login in the session's congregation
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'users:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const loginId = parseId(id);
+    if (loginId === null) {
+      return jsonResponse({ error: 'Invalid user ID' }, 400);
+    }
+
+    const body = await request.text();
+    if (!body) {
+      return jsonResponse({ error: 'Empty body' }, 400);
+    }
+
+    const { role, groupName, publisherId, approved } = JSON.parse(body);
+    const data: Prisma.LoginUpdateInput = {};
+
+    if (role !== undefined) {
+      if (!isRole(role)) {
+        return jsonResponse({ error: `role must be one of ${ROLES.join(', ')}` }, 400);
+      }
+      data.role = role;
+    }
+    if (groupName !== undefined) {
+      if (groupName !== null && (typeof groupName !== 'string' || groupName.trim().length > 100)) {
+        return jsonResponse({ error: 'groupName must be a string of at most 100 characters or null' }, 400);
+      }
+      data.group_name = groupName === null || groupName.trim() === '' ? null : groupName.trim();
+    }
+    if (approved !== undefined) {
+      // Approval is not withdrawn here; a login that should not get in is never approved
+      if (approved !== true) {
+        return jsonResponse({ error: 'approved can only be set to true' }, 400);
+      }
+      data.approved = true;
+    }
+    if (publisherId !== undefined) {
+      if (publisherId !== null && !Number.isInteger(publisherId)) {
+        return jsonResponse({ error: 'publisherId must be an integer or null' }, 400);
+      }
+      if (publisherId === null) {
+        data.Publisher = { disconnect: true };
+      } else {
+        const found = await findPublisher(prisma, auth.session, publisherId);
+        if ('response' in found) return found.response;
+        data.Publisher = { connect: { idPublisher: publisherId } };
+      }
+    }
+
+    if (Object.keys(data).length === 0) {
+      return jsonResponse({ error: 'Nothing to update' }, 400);
+    }
+
+    const login = await prisma.login.findFirst({
+      where: { id: loginId, congregationNumber: auth.session.congregationId },
+    });
+    if (!login) {
+      return jsonResponse({ error: 'User not found' }, 404);
+    }
+
+    // A publisher stands for one person, so it is linked to one login at most
+    if (typeof publisherId === 'number') {
+      const linked = await prisma.login.findFirst({
+        where: { publisher_id: publisherId, id: { not: login.id } },
+      });
+      if (linked) {
+        return jsonResponse({ error: `That publisher is already linked to ${linked.name}` }, 409);
+      }
+    }
+
+    // A congregation always keeps at least one admin
+    if (login.role === 'admin' && data.role !== undefined && data.role !== 'admin') {
+      const admins = await prisma.login.count({
+        where: { congregationNumber: auth.session.congregationId, role: 'admin', approved: true },
+      });
+      if (admins <= 1) {
+        return jsonResponse({ error: 'The last admin of a congregation cannot be given another role' }, 409);
+      }
+    }
+
+    const updated = await prisma.login.update({
+      where: { id: login.id },
+      data: { ...data, updatedAt: new Date() },
+    });
+
+    return jsonResponse({
+      message: 'User updated successfully',
+      user: serializeUser(updated),
+    });
+  } catch (error) {
+    return serverErrorResponse('PATCH', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// DELETE: Reject a self-registered login that has not been approved yet
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'users:manage');
+    if (denied) return denied;
+
+    const { id } = await params;
+    const loginId = parseId(id);
+    if (loginId === null) {
+      return jsonResponse({ error: 'Invalid user ID' }, 400);
+    }
+
+    const login = await prisma.login.findFirst({
+      where: { id: loginId, congregationNumber: auth.session.congregationId },
+    });
+    if (!login) {
+      return jsonResponse({ error: 'User not found' }, 404);
+    }
+    if (login.approved) {
+      return jsonResponse({ error: 'Only logins waiting for approval can be rejected' }, 409);
+    }
+
+    await prisma.login.delete({ where: { id: login.id } });
+
+    return jsonResponse({ message: `Registration of ${login.name} rejected` });
+  } catch (error) {
+    return serverErrorResponse('DELETE', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('PATCH, DELETE');
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { requireSession, serializeUser } from '@/lib/auth';
+import { jsonResponse, optionsResponse, serverErrorResponse } from '@/lib/http';
+import { requirePermission } from '@/lib/permissions';
+
+const prisma = new PrismaClient();
+
+// GET: List the logins of the session's congregation with their roles, those waiting
+// for approval first
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const auth = await requireSession(prisma, request);
+    if ('response' in auth) return auth.response;
+    const denied = requirePermission(auth.session, 'users:manage');
+    if (denied) return denied;
+
+    const logins = await prisma.login.findMany({
+      where: { congregationNumber: auth.session.congregationId },
+      orderBy: [{ approved: 'asc' }, { name: 'asc' }],
+    });
+
+    return jsonResponse({ users: logins.map(serializeUser) });
+  } catch (error) {
+    return serverErrorResponse('GET', error);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// OPTIONS: Handle CORS preflight
+export async function OPTIONS(): Promise<NextResponse> {
+  return optionsResponse('GET');
+}
@@ -0,0 +1,136 @@
+import type { GPS_VR2_STRUCTURE, Prisma, PrismaClient, Publisher } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Values of GPS_VR2_STRUCTURE.Statut. Anything else (rows from before the ledger)
+// counts as checked in.
+export const CHECKED_OUT = 'checked_out';
+export const CHECKED_IN = 'checked_in';
+
+const MAX_NAME_LENGTH = 100;
+
+// A ledger row loaded with the roster entry of its publisher
+export type LedgerRow = GPS_VR2_STRUCTURE & { Publisher?: Publisher | null };
+
+// Rows are read with their publisher, so renamed publishers show their current name
+export const WITH_PUBLISHER = { Publisher: true } as const;
+
+export interface CheckoutInput {
+  publisherId: number | null;
+  publisherName: string | null;
+  groupName: string | null;
+}
+
+// Validates a check-out body: the territory goes to a publisher (from the roster by
+// publisherId, or by name), a group, or a publisher working with their group
+export function parseCheckoutInput(value: unknown): CheckoutInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const input: CheckoutInput = { publisherId: null, publisherName: null, groupName: null };
+  const { publisherId } = value as Record<string, unknown>;
+  if (publisherId !== undefined && publisherId !== null) {
+    if (!Number.isInteger(publisherId)) {
+      return { error: 'publisherId must be an integer' };
+    }
+    input.publisherId = publisherId as number;
+  }
+
+  for (const field of ['publisherName', 'groupName'] as const) {
+    const raw = (value as Record<string, unknown>)[field];
+    if (raw === undefined || raw === null) continue;
+    if (typeof raw !== 'string' || raw.trim().length > MAX_NAME_LENGTH) {
+      return { error: `${field} must be a string of at most ${MAX_NAME_LENGTH} characters` };
+    }
+    input[field] = raw.trim() || null;
+  }
+
+  if (!input.publisherId && !input.publisherName && !input.groupName) {
+    return { error: 'publisherId, publisherName or groupName is required' };
+  }
+  return input;
+}
+
+// The latest ledger row of each territory, keyed by territory id
+export async function latestAssignments(
+  db: Db,
+  territoryIds: number[]
+): Promise<Map<number, LedgerRow>> {
+  if (territoryIds.length === 0) return new Map();
+
+  const rows = await db.gPS_VR2_STRUCTURE.findMany({
+    where: { territory_id: { in: territoryIds } },
+    orderBy: [{ Statut_time: 'desc' }, { id: 'desc' }],
+    distinct: ['territory_id'],
+    include: WITH_PUBLISHER,
+  });
+  return new Map(rows.map(row => [row.territory_id!, row]));
+}
+
+// Name of the publisher of a ledger row: the roster's current name when the row is
+// linked to a publisher, otherwise the name recorded with the row
+export function publisherName(row: LedgerRow): string | null {
+  return row.Publisher?.name ?? row.User_name;
+}
+
+// Current status of a territory from its latest ledger row; `since` is when that
+// status began (null for territories that were never checked out)
+export function serializeStatus(latest: LedgerRow | undefined) {
+  const isOut = latest?.Statut === CHECKED_OUT;
+  return {
+    status: isOut ? CHECKED_OUT : CHECKED_IN,
+    publisherId: isOut ? latest.publisher_id : null,
+    publisherName: isOut ? publisherName(latest) : null,
+    groupName: isOut ? latest.group_name : null,
+    since: latest?.Statut_time ?? null,
+  };
+}
+
+// A ledger row as returned by the assignment API
+export function serializeAssignment(row: LedgerRow) {
+  return {
+    id: row.id,
+    territoryId: row.territory_id,
+    territoryName: row.Terri,
+    status: row.Statut,
+    publisherId: row.publisher_id,
+    publisherName: publisherName(row),
+    groupName: row.group_name,
+    at: row.Statut_time,
+    recordedBy: row.recorded_by,
+  };
+}
+
+export interface AssignmentPeriod {
+  publisherId: number | null;
+  publisherName: string | null;
+  groupName: string | null;
+  assignedAt: Date | null;
+  // null while the territory is still checked out
+  completedAt: Date | null;
+}
+
+// Pairs a territory's check-outs with the check-ins that ended them. `rows` must be
+// in ledger order (oldest first); a check-in without a check-out is skipped.
+export function assignmentPeriods(rows: LedgerRow[]): AssignmentPeriod[] {
+  const periods: AssignmentPeriod[] = [];
+  let open: AssignmentPeriod | null = null;
+
+  for (const row of rows) {
+    if (row.Statut === CHECKED_OUT) {
+      open = {
+        publisherId: row.publisher_id,
+        publisherName: publisherName(row),
+        groupName: row.group_name,
+        assignedAt: row.Statut_time,
+        completedAt: null,
+      };
+      periods.push(open);
+    } else if (open) {
+      open.completedAt = row.Statut_time;
+      open = null;
+    }
+  }
+  return periods;
+}
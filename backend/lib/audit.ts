@@ -0,0 +1,122 @@
+import type { AuditLog, Building, Door, Prisma, PrismaClient, Publisher } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type AuditEntity = 'building' | 'door';
+
+// `revert` is written on the building when it is reverted to an earlier version;
+// the door changes of a revert are recorded with their ordinary actions
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'revert';
+
+export interface BuildingSnapshot {
+  lat: number;
+  long: number;
+  address: string | null;
+  territory_id: number | null;
+}
+
+export interface DoorSnapshot {
+  label: string;
+  language: string | null;
+  languageId: number;
+  // Recorded so these changes show in the history; reverts leave them alone
+  languageStatus?: string;
+  doNotCall?: boolean;
+}
+
+export type Snapshot = BuildingSnapshot | DoorSnapshot;
+
+export interface AuditEntry {
+  entity: AuditEntity;
+  entityId: number;
+  buildingId: number;
+  action: AuditAction;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+  actor: string;
+}
+
+// The audited fields of a building; last_modified and the soft-delete columns are left out
+export function buildingSnapshot(building: Building): BuildingSnapshot {
+  return {
+    lat: Number(building.lat),
+    long: Number(building.long),
+    address: building.address,
+    territory_id: building.territory_id,
+  };
+}
+
+export function doorSnapshot(door: Door): DoorSnapshot {
+  return {
+    label: door.information_name || '',
+    language: door.language,
+    languageId: door.id_cong_lang,
+    languageStatus: door.language_status,
+    doNotCall: door.dnc_at !== null,
+  };
+}
+
+// Field-by-field differences between two snapshots, or null when nothing changed
+export function diffSnapshots(
+  before: Snapshot | null | undefined,
+  after: Snapshot | null | undefined
+): Record<string, { from: unknown; to: unknown }> | null {
+  if (!before || !after) return null;
+
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const beforeFields = before as unknown as Record<string, unknown>;
+  const afterFields = after as unknown as Record<string, unknown>;
+  for (const key of Object.keys({ ...beforeFields, ...afterFields })) {
+    if (beforeFields[key] !== afterFields[key]) {
+      changes[key] = { from: beforeFields[key] ?? null, to: afterFields[key] ?? null };
+    }
+  }
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+const toJson = (value: unknown) =>
+  value == null ? undefined : (value as Prisma.InputJsonValue);
+
+// Writes the entries of one change, all made in the same congregation. `publisherId`
+// is the publisher linked to the actor's login (Session.publisherId).
+export async function recordAudit(
+  db: Db,
+  congregationId: number,
+  entries: AuditEntry[],
+  publisherId: number | null = null
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  await db.auditLog.createMany({
+    data: entries.map(entry => ({
+      entity: entry.entity,
+      entity_id: entry.entityId,
+      building_id: entry.buildingId,
+      congregation_id: congregationId,
+      action: entry.action,
+      before: toJson(entry.before),
+      after: toJson(entry.after),
+      changes: toJson(diffSnapshots(entry.before, entry.after)),
+      actor: entry.actor,
+      publisher_id: publisherId,
+    })),
+  });
+}
+
+// Entries loaded with their Publisher show its current name next to the login name
+export function serializeAuditEntry(entry: AuditLog & { Publisher?: Publisher | null }) {
+  return {
+    id: entry.id,
+    entity: entry.entity,
+    entityId: entry.entity_id,
+    buildingId: entry.building_id,
+    action: entry.action,
+    before: entry.before,
+    after: entry.after,
+    changes: entry.changes,
+    actor: entry.actor,
+    publisherId: entry.publisher_id,
+    publisherName: entry.Publisher?.name ?? null,
+    createdAt: entry.createdAt,
+  };
+}
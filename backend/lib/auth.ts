@@ -0,0 +1,183 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextRequest, NextResponse } from 'next/server';
+import type { Login, Prisma, PrismaClient } from '@prisma/client';
+import { jsonResponse } from '@/lib/http';
+import { toRole, type Role } from '@/lib/permissions';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface AccountInput {
+  name: string;
+  // Trimmed and lower-cased, as stored in Login.email
+  email: string;
+  password: string;
+  whatsapp: string;
+}
+
+// Validates the account fields of a registration or onboarding body
+export function parseAccountInput(value: unknown): AccountInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { name, email, password, whatsapp = '' } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || name.trim() === '' || name.trim().length > 100) {
+    return { error: 'name is required (at most 100 characters)' };
+  }
+  if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim()) || email.trim().length > 150) {
+    return { error: 'A valid email is required' };
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+  }
+  if (typeof whatsapp !== 'string' || whatsapp.length > 20) {
+    return { error: 'whatsapp must be at most 20 characters' };
+  }
+
+  return {
+    name: name.trim(),
+    email: email.trim().toLowerCase(),
+    password,
+    whatsapp: whatsapp.trim(),
+  };
+}
+
+// Stored as scrypt$<salt>$<hash>, both base64, in Login.password
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+interface TokenPayload {
+  sub: number;
+  ver: number;
+  exp: number;
+}
+
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error('AUTH_SECRET is not configured');
+  }
+  return secret;
+}
+
+const base64url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+const sign = (data: string) => createHmac('sha256', authSecret()).update(data).digest('base64url');
+
+// Issues an HS256 JWT for a login. `ver` is Login.tokenVersion, so bumping it on
+// logout invalidates every token issued before.
+export function signToken(login: Login): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload: TokenPayload = {
+    sub: login.id,
+    ver: login.tokenVersion,
+    exp: Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS,
+  };
+  const body = base64url(JSON.stringify(payload));
+  return `${header}.${body}.${sign(`${header}.${body}`)}`;
+}
+
+function verifyToken(token: string): TokenPayload | null {
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+
+  const expected = Buffer.from(sign(`${header}.${body}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString()) as TokenPayload;
+    if (!Number.isInteger(payload.sub) || !Number.isInteger(payload.ver)) return null;
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface Session {
+  loginId: number;
+  name: string;
+  email: string;
+  congregationId: number;
+  role: Role;
+  groupName: string | null;
+  // Roster entry linked to the login; changes it records are attributed to it
+  publisherId: number | null;
+}
+
+// Resolves the Bearer token of a request to its Login, or null when the token is
+// missing, invalid, expired or revoked by a logout, or the login is not approved
+export async function getSession(db: Db, request: NextRequest): Promise<Session | null> {
+  const authorization = request.headers.get('authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : null;
+  if (!token) return null;
+
+  const payload = verifyToken(token);
+  if (!payload) return null;
+
+  const login = await db.login.findUnique({ where: { id: payload.sub } });
+  if (!login || !login.approved || login.tokenVersion !== payload.ver) return null;
+
+  return serializeSession(login);
+}
+
+// Like getSession, but returns the 401 response to send when there is no session
+export async function requireSession(
+  db: Db,
+  request: NextRequest
+): Promise<{ session: Session } | { response: NextResponse }> {
+  const session = await getSession(db, request);
+  return session
+    ? { session }
+    : { response: jsonResponse({ error: 'Authentication required' }, 401) };
+}
+
+// A login as listed to admins by /api/users
+export function serializeUser(login: Login) {
+  return {
+    id: login.id,
+    name: login.name,
+    email: login.email,
+    whatsapp: login.whatsapp,
+    role: toRole(login.role),
+    groupName: login.group_name,
+    publisherId: login.publisher_id,
+    // False while a self-registered login waits for approval
+    approved: login.approved,
+    loginCount: login.loginCount,
+    createdAt: login.createdAt,
+  };
+}
+
+export function serializeSession(login: Login): Session {
+  return {
+    loginId: login.id,
+    name: login.name,
+    email: login.email,
+    congregationId: login.congregationNumber,
+    role: toRole(login.role),
+    groupName: login.group_name,
+    publisherId: login.publisher_id,
+  };
+}
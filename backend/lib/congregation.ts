@@ -0,0 +1,168 @@
+import type { NextResponse } from 'next/server';
+import type { Building, Congregation, Prisma, PrismaClient } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { jsonResponse } from '@/lib/http';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Every building and door belongs to exactly one congregation, and a session only
+// sees its own. Reads filter by it (other congregations' rows are simply not found);
+// writes that name another congregation's data are rejected with a 403.
+
+export function forbiddenResponse(): NextResponse {
+  return jsonResponse({ error: 'This data belongs to another congregation' }, 403);
+}
+
+// Checks a congregation id sent by the client. It may be left out, since the
+// session's congregation is always used; a different one is rejected.
+export function checkCongregationId(session: Session, congregationId: unknown): NextResponse | null {
+  if (congregationId === undefined || congregationId === null) return null;
+  return congregationId === session.congregationId ? null : forbiddenResponse();
+}
+
+// Checks that a territory id sent by the client is one of the session's territories
+export async function checkTerritory(
+  db: Db,
+  session: Session,
+  territoryId: unknown
+): Promise<NextResponse | null> {
+  if (territoryId === undefined || territoryId === null) return null;
+  if (!Number.isInteger(territoryId)) {
+    return jsonResponse({ error: 'territory_id must be an integer' }, 400);
+  }
+
+  const territory = await db.territory.findUnique({ where: { idTerritory: territoryId as number } });
+  if (!territory) {
+    return jsonResponse({ error: 'Territory not found' }, 404);
+  }
+  return territory.congregation_id === session.congregationId ? null : forbiddenResponse();
+}
+
+// Main language of a congregation, given to doors sent without a language; undefined
+// when the congregation has not picked one, so such doors are rejected
+export async function congregationLanguage(db: Db, congregationId: number): Promise<string | undefined> {
+  const congregation = await db.congregation.findUnique({ where: { idCongregation: congregationId } });
+  return congregation?.language ?? undefined;
+}
+
+// Loads a building that is about to be changed: 404 when no building matches
+// `where`, 403 when it belongs to another congregation
+export async function findBuildingForWrite(
+  db: Db,
+  session: Session,
+  buildingId: number,
+  where: Prisma.BuildingWhereInput = {},
+  notFound = 'Building not found'
+): Promise<{ response: NextResponse } | { building: Building }> {
+  const building = await db.building.findFirst({ where: { ...where, idBuilding: buildingId } });
+  if (!building) {
+    return { response: jsonResponse({ error: notFound }, 404) };
+  }
+  if (building.congregation_id !== session.congregationId) {
+    return { response: forbiddenResponse() };
+  }
+  return { building };
+}
+
+// Zoom used when a congregation's map centre was saved without one
+export const DEFAULT_MAP_ZOOM = 14;
+const MAX_MAP_ZOOM = 19;
+const MAX_NAME_LENGTH = 255;
+const MAX_LANGUAGE_LENGTH = 100;
+
+export interface MapCenter {
+  lat: number;
+  long: number;
+  zoom: number;
+}
+
+export interface CongregationInput {
+  name?: string;
+  language?: string;
+  mapCenter?: MapCenter | null;
+}
+
+function parseMapCenter(value: unknown): MapCenter | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'mapCenter must be an object with lat and long' };
+  }
+
+  const { lat, long, zoom } = value as Record<string, unknown>;
+  if (typeof lat !== 'number' || !Number.isFinite(lat) || lat < -90 || lat > 90) {
+    return { error: 'mapCenter.lat must be a number from -90 to 90' };
+  }
+  if (typeof long !== 'number' || !Number.isFinite(long) || long < -180 || long > 180) {
+    return { error: 'mapCenter.long must be a number from -180 to 180' };
+  }
+  if (zoom !== undefined && zoom !== null
+    && (!Number.isInteger(zoom) || (zoom as number) < 1 || (zoom as number) > MAX_MAP_ZOOM)) {
+    return { error: `mapCenter.zoom must be an integer from 1 to ${MAX_MAP_ZOOM}` };
+  }
+  return { lat, long, zoom: (zoom as number | null | undefined) ?? DEFAULT_MAP_ZOOM };
+}
+
+// Validates congregation settings. With `partial` every field is optional (PATCH,
+// where a null mapCenter clears it); otherwise all three are required (onboarding).
+export function parseCongregationInput(value: unknown, partial = false): CongregationInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { name, language, mapCenter } = value as Record<string, unknown>;
+  const input: CongregationInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '' || name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name is required (at most ${MAX_NAME_LENGTH} characters)` };
+    }
+    input.name = name.trim();
+  }
+
+  if (language !== undefined || !partial) {
+    if (typeof language !== 'string' || language.trim() === '' || language.trim().length > MAX_LANGUAGE_LENGTH) {
+      return { error: `language is required (at most ${MAX_LANGUAGE_LENGTH} characters)` };
+    }
+    input.language = language.trim();
+  }
+
+  if (mapCenter !== undefined || !partial) {
+    if (mapCenter === null && partial) {
+      input.mapCenter = null;
+    } else {
+      const center = parseMapCenter(mapCenter);
+      if ('error' in center) return center;
+      input.mapCenter = center;
+    }
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+
+  return input;
+}
+
+// The Congregation columns of a map centre; null clears them
+export function mapCenterData(center: MapCenter | null) {
+  return {
+    map_lat: center?.lat ?? null,
+    map_long: center?.long ?? null,
+    map_zoom: center?.zoom ?? null,
+  };
+}
+
+// A congregation as returned by the congregation API. mapCenter is null until one is set.
+export function serializeCongregation(congregation: Congregation) {
+  return {
+    id: congregation.idCongregation,
+    name: congregation.name,
+    language: congregation.language,
+    mapCenter: congregation.map_lat != null && congregation.map_long != null
+      ? {
+        lat: congregation.map_lat,
+        long: congregation.map_long,
+        zoom: congregation.map_zoom ?? DEFAULT_MAP_ZOOM,
+      }
+      : null,
+  };
+}
@@ -0,0 +1,439 @@
+import type { NextResponse } from 'next/server';
+import type { Door, Prisma, PrismaClient } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { doorSnapshot, recordAudit, type AuditEntry } from '@/lib/audit';
+import { forbiddenResponse } from '@/lib/congregation';
+import { jsonResponse, parseId } from '@/lib/http';
+import { resolveLanguages } from '@/lib/languages';
+
+// Values of Door.language_status: guessed from a name or mailbox, confirmed in
+// person, or found in person not to be the door's language
+export const LANGUAGE_STATUSES = ['suspected', 'confirmed', 'not_this_language'] as const;
+
+export type LanguageStatus = (typeof LANGUAGE_STATUSES)[number];
+
+export function isLanguageStatus(value: unknown): value is LanguageStatus {
+  return typeof value === 'string' && (LANGUAGE_STATUSES as readonly string[]).includes(value);
+}
+
+// A door as sent by clients in the `doors` array of a building payload. The language
+// may be given by name or by idLanguage. Without a languageStatus the door keeps its
+// status, unless its language changes, which makes it suspected again.
+export interface DoorInput {
+  id?: number;
+  label: string;
+  language?: string;
+  languageId?: number;
+  languageStatus?: LanguageStatus;
+}
+
+// A door whose language has been matched to the congregation's Language table
+export interface ResolvedDoor {
+  id?: number;
+  label: string;
+  language: string;
+  languageId: number;
+  languageStatus?: LanguageStatus;
+}
+
+// A door's do-not-call request as returned by the API
+export interface DoNotCallOutput {
+  reason: string | null;
+  markedAt: Date;
+  markedBy: string | null;
+  reviewAfter: Date | null;
+  // The review date has passed; the request still applies until it is cleared
+  reviewDue: boolean;
+}
+
+// A door as returned by the API
+export interface DoorOutput {
+  id: number;
+  label: string;
+  language: string | null;
+  languageId: number;
+  lastModified: Date | null;
+  languageStatus: string;
+  languageConfirmedBy: string | null;
+  languageConfirmedAt: Date | null;
+  doNotCall: DoNotCallOutput | null;
+}
+
+export interface DoNotCallInput {
+  reason: string | null;
+  // Defaults to now
+  markedAt?: Date;
+  reviewAfter: Date | null;
+}
+
+const MAX_REASON_LENGTH = 255;
+
+// Validates a single door object; `path` names it in error messages
+export function parseDoor(item: unknown, defaultLanguage?: string, path = 'door'): DoorInput | { error: string } {
+  if (typeof item !== 'object' || item === null) {
+    return { error: `${path} must be an object` };
+  }
+
+  const { id, label, language, languageId, languageStatus } = item as Record<string, unknown>;
+  if (typeof label !== 'string' || label.trim() === '') {
+    return { error: `${path}.label is required` };
+  }
+  if (id !== undefined && id !== null && !Number.isInteger(id)) {
+    return { error: `${path}.id must be an integer` };
+  }
+  if (languageId !== undefined && languageId !== null && !Number.isInteger(languageId)) {
+    return { error: `${path}.languageId must be an integer` };
+  }
+  if (languageStatus !== undefined && languageStatus !== null && !isLanguageStatus(languageStatus)) {
+    return { error: `${path}.languageStatus must be one of ${LANGUAGE_STATUSES.join(', ')}` };
+  }
+
+  const doorLanguage = typeof language === 'string' && language.trim() !== '' ? language.trim() : defaultLanguage;
+  if (!doorLanguage && typeof languageId !== 'number') {
+    return { error: `${path}.language is required` };
+  }
+
+  return {
+    ...(typeof id === 'number' && { id }),
+    label: label.trim(),
+    ...(typeof languageId === 'number' ? { languageId } : { language: doorLanguage }),
+    ...(isLanguageStatus(languageStatus) && { languageStatus }),
+  };
+}
+
+// Validates the `doors` array of a building payload. Doors without a language
+// fall back to `defaultLanguage` (the building-level language field).
+export function parseDoors(value: unknown, defaultLanguage?: string): DoorInput[] | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'doors must be an array' };
+  }
+
+  const doors: DoorInput[] = [];
+  for (const [index, item] of value.entries()) {
+    const door = parseDoor(item, defaultLanguage, `doors[${index}]`);
+    if ('error' in door) return door;
+    doors.push(door);
+  }
+
+  return doors;
+}
+
+// Matches every door's language against the congregation's Language table, so the
+// stored name and id_cong_lang always agree. Unknown languages are rejected.
+export async function resolveDoorLanguages(
+  db: PrismaClient | Prisma.TransactionClient,
+  congregationId: number,
+  doors: DoorInput[]
+): Promise<ResolvedDoor[] | { error: string }> {
+  const languages = await resolveLanguages(db, congregationId, doors);
+  if ('error' in languages) return languages;
+
+  return doors.map((door, index) => ({
+    ...(door.id !== undefined && { id: door.id }),
+    label: door.label,
+    language: languages[index].name,
+    languageId: languages[index].idLanguage,
+    ...(door.languageStatus && { languageStatus: door.languageStatus }),
+  }));
+}
+
+// The language status columns to write when a door's status becomes `status`.
+// Confirming or ruling out a language records who did it; suspected clears that.
+export function languageStatusData(status: LanguageStatus, actor: string, now = new Date()) {
+  const inPerson = status !== 'suspected';
+  return {
+    language_status: status,
+    language_confirmed_by: inPerson ? actor : null,
+    language_confirmed_at: inPerson ? now : null,
+  };
+}
+
+// The status a door should end up with when `door` is written over `current`: the
+// submitted one, or suspected when the language changed without one
+export function nextLanguageStatus(current: Door, door: ResolvedDoor): LanguageStatus | undefined {
+  if (door.languageStatus) return door.languageStatus;
+  return current.id_cong_lang !== door.languageId ? 'suspected' : undefined;
+}
+
+export interface DoorSyncResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+// Applies a submitted door list to a building, matching doors by id. Known doors
+// are only written when their label or language changed, so untouched doors keep
+// their id and lastModified; doors without an id are created and existing doors
+// missing from the list are moved to the recycle bin. Validation happens before any
+// write, and every door written gets an audit entry attributed to `actor` and the
+// publisher linked to their login.
+export async function syncDoors(
+  tx: Prisma.TransactionClient,
+  buildingId: number,
+  doors: ResolvedDoor[],
+  congregationId: number,
+  actor: string,
+  publisherId: number | null
+): Promise<DoorSyncResult | { error: string }> {
+  const existing = await tx.door.findMany({ where: { building_id: buildingId, deletedAt: null } });
+  const existingById = new Map(existing.map(door => [door.idDoor, door]));
+
+  const submittedIds = new Set<number>();
+  for (const door of doors) {
+    if (door.id === undefined) continue;
+    if (!existingById.has(door.id)) {
+      return { error: `Door ${door.id} does not belong to building ${buildingId}` };
+    }
+    if (submittedIds.has(door.id)) {
+      return { error: `Door ${door.id} is listed more than once` };
+    }
+    submittedIds.add(door.id);
+  }
+
+  const result: DoorSyncResult = { created: 0, updated: 0, deleted: 0, unchanged: 0 };
+  const audit: AuditEntry[] = [];
+  const auditDoor = (action: AuditEntry['action'], doorId: number, before?: Door, after?: Door) =>
+    audit.push({
+      entity: 'door',
+      entityId: doorId,
+      buildingId,
+      action,
+      before: before && doorSnapshot(before),
+      after: after && doorSnapshot(after),
+      actor,
+    });
+
+  const now = new Date();
+  const removed = existing.filter(door => !submittedIds.has(door.idDoor));
+  if (removed.length > 0) {
+    await tx.door.updateMany({
+      where: { idDoor: { in: removed.map(door => door.idDoor) } },
+      data: { deletedAt: now, deletedBy: actor },
+    });
+    removed.forEach(door => auditDoor('delete', door.idDoor, door));
+    result.deleted = removed.length;
+  }
+
+  for (const door of doors) {
+    if (door.id === undefined) {
+      const created = await tx.door.create({
+        data: {
+          language: door.language,
+          information_name: door.label,
+          building_id: buildingId,
+          id_cong_app: congregationId,
+          id_cong_lang: door.languageId,
+          ...(door.languageStatus && languageStatusData(door.languageStatus, actor, now)),
+        },
+      });
+      auditDoor('create', created.idDoor, undefined, created);
+      result.created += 1;
+      continue;
+    }
+
+    const current = existingById.get(door.id)!;
+    const status = nextLanguageStatus(current, door);
+    const statusChanged = status !== undefined && status !== current.language_status;
+    if (
+      current.information_name === door.label &&
+      current.language === door.language &&
+      current.id_cong_lang === door.languageId &&
+      !statusChanged
+    ) {
+      result.unchanged += 1;
+      continue;
+    }
+
+    const updated = await tx.door.update({
+      where: { idDoor: door.id },
+      data: {
+        information_name: door.label,
+        language: door.language,
+        id_cong_lang: door.languageId,
+        ...(statusChanged && languageStatusData(status, actor, now)),
+        lastModified: now,
+        updatedAt: now,
+      },
+    });
+    auditDoor('update', door.id, current, updated);
+    result.updated += 1;
+  }
+
+  await recordAudit(tx, congregationId, audit, publisherId);
+  return result;
+}
+
+// Resolves a building id and door id from the route and loads the door, making sure
+// it belongs to the building and to the session's congregation
+export async function findDoor(
+  db: PrismaClient | Prisma.TransactionClient,
+  session: Session,
+  id: string,
+  doorId: string
+): Promise<{ response: NextResponse } | { buildingId: number; door: Door }> {
+  const buildingId = parseId(id);
+  const parsedDoorId = parseId(doorId);
+  if (buildingId === null || parsedDoorId === null) {
+    return { response: jsonResponse({ error: 'Invalid building or door ID' }, 400) };
+  }
+
+  const door = await db.door.findFirst({
+    where: {
+      idDoor: parsedDoorId,
+      building_id: buildingId,
+      deletedAt: null,
+      Building: { deletedAt: null },
+    },
+  });
+
+  if (!door) {
+    return { response: jsonResponse({ error: 'Door not found' }, 404) };
+  }
+  if (door.id_cong_app !== session.congregationId) {
+    return { response: forbiddenResponse() };
+  }
+
+  return { buildingId, door };
+}
+
+// Validates a do-not-call body: { reason?, markedAt?, reviewAfter? }, with markedAt an
+// ISO date that is not in the future and reviewAfter a date such as "2026-06-30"
+export function parseDoNotCallInput(value: unknown): DoNotCallInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { reason, markedAt, reviewAfter } = value as Record<string, unknown>;
+  const input: DoNotCallInput = { reason: null, reviewAfter: null };
+  if (reason !== undefined && reason !== null) {
+    if (typeof reason !== 'string' || reason.trim().length > MAX_REASON_LENGTH) {
+      return { error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` };
+    }
+    input.reason = reason.trim() || null;
+  }
+
+  if (markedAt !== undefined && markedAt !== null) {
+    const date = typeof markedAt === 'string' ? new Date(markedAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      return { error: 'markedAt must be an ISO date' };
+    }
+    if (date.getTime() > Date.now()) {
+      return { error: 'markedAt cannot be in the future' };
+    }
+    input.markedAt = date;
+  }
+
+  if (reviewAfter !== undefined && reviewAfter !== null && reviewAfter !== '') {
+    const date = typeof reviewAfter === 'string' ? new Date(reviewAfter) : null;
+    if (!date || isNaN(date.getTime())) {
+      return { error: 'reviewAfter must be a date' };
+    }
+    input.reviewAfter = date;
+  }
+
+  return input;
+}
+
+// Writes `data` to a single door, touches its building and records the change in the
+// building's history. `actor` is the session's login name.
+async function updateDoorWithAudit(
+  tx: Prisma.TransactionClient,
+  door: Door,
+  data: Prisma.DoorUncheckedUpdateInput,
+  actor: string,
+  publisherId: number | null,
+  now: Date
+): Promise<Door> {
+  const updated = await tx.door.update({
+    where: { idDoor: door.idDoor },
+    data: { ...data, lastModified: now, updatedAt: now },
+  });
+
+  if (door.building_id !== null) {
+    await tx.building.update({
+      where: { idBuilding: door.building_id },
+      data: { last_modified: now },
+    });
+    await recordAudit(tx, door.id_cong_app, [{
+      entity: 'door',
+      entityId: door.idDoor,
+      buildingId: door.building_id,
+      action: 'update',
+      before: doorSnapshot(door),
+      after: doorSnapshot(updated),
+      actor,
+    }], publisherId);
+  }
+
+  return updated;
+}
+
+// Marks a door do-not-call, or updates the request already on it
+export async function markDoNotCall(
+  tx: Prisma.TransactionClient,
+  door: Door,
+  input: DoNotCallInput,
+  actor: string,
+  publisherId: number | null
+): Promise<Door> {
+  const now = new Date();
+  return updateDoorWithAudit(tx, door, {
+    dnc_at: input.markedAt ?? door.dnc_at ?? now,
+    dnc_reason: input.reason,
+    dnc_review_after: input.reviewAfter,
+    dnc_by: actor,
+  }, actor, publisherId, now);
+}
+
+// Clears a door's do-not-call request
+export async function clearDoNotCall(
+  tx: Prisma.TransactionClient,
+  door: Door,
+  actor: string,
+  publisherId: number | null
+): Promise<Door> {
+  return updateDoorWithAudit(tx, door, {
+    dnc_at: null,
+    dnc_reason: null,
+    dnc_review_after: null,
+    dnc_by: null,
+  }, actor, publisherId, new Date());
+}
+
+// Records that a door's language was confirmed or ruled out, e.g. from a visit
+export async function setLanguageStatus(
+  tx: Prisma.TransactionClient,
+  door: Door,
+  status: LanguageStatus,
+  actor: string,
+  publisherId: number | null
+): Promise<Door> {
+  const now = new Date();
+  return updateDoorWithAudit(tx, door, languageStatusData(status, actor, now), actor, publisherId, now);
+}
+
+export function serializeDoNotCall(door: Door): DoNotCallOutput | null {
+  if (!door.dnc_at) return null;
+  return {
+    reason: door.dnc_reason,
+    markedAt: door.dnc_at,
+    markedBy: door.dnc_by,
+    reviewAfter: door.dnc_review_after,
+    reviewDue: door.dnc_review_after !== null && door.dnc_review_after.getTime() <= Date.now(),
+  };
+}
+
+export function serializeDoor(door: Door): DoorOutput {
+  return {
+    id: door.idDoor,
+    label: door.information_name || '',
+    language: door.language,
+    languageId: door.id_cong_lang,
+    lastModified: door.lastModified,
+    languageStatus: door.language_status,
+    languageConfirmedBy: door.language_confirmed_by,
+    languageConfirmedAt: door.language_confirmed_at,
+    doNotCall: serializeDoNotCall(door),
+  };
+}
@@ -0,0 +1,82 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { distanceMeters } from '@/lib/geo';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const DEFAULT_RADIUS_METERS = 30;
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Share of address words two addresses must have in common to count as similar
+const MIN_SHARED_WORDS = 0.5;
+
+// Radius around a new building searched for duplicates, from DUPLICATE_RADIUS_METERS
+export function duplicateRadiusMeters(): number {
+  const radius = Number(process.env.DUPLICATE_RADIUS_METERS);
+  return Number.isFinite(radius) && radius > 0 ? radius : DEFAULT_RADIUS_METERS;
+}
+
+// Lower-case words of an address, without punctuation
+function addressWords(address: string): string[] {
+  return address
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word !== '');
+}
+
+// Whether two addresses probably name the same building: one contains the other, or
+// they share at least half of the words of the shorter one. A blank address cannot be
+// compared, so it matches anything.
+export function isSimilarAddress(a: string | null, b: string | null): boolean {
+  const wordsA = addressWords(a || '');
+  const wordsB = addressWords(b || '');
+  if (wordsA.length === 0 || wordsB.length === 0) return true;
+
+  const joinedA = wordsA.join(' ');
+  const joinedB = wordsB.join(' ');
+  if (joinedA.includes(joinedB) || joinedB.includes(joinedA)) return true;
+
+  const setB = new Set(wordsB);
+  const shared = new Set(wordsA.filter(word => setB.has(word))).size;
+  return shared / Math.min(new Set(wordsA).size, setB.size) >= MIN_SHARED_WORDS;
+}
+
+// Live buildings of a congregation within the duplicate radius of [lat, long] whose
+// address is similar to `address`, nearest first
+export async function findDuplicateBuildings(
+  db: Db,
+  congregationId: number,
+  lat: number,
+  long: number,
+  address: string
+) {
+  const radius = duplicateRadiusMeters();
+  const latDelta = radius / METERS_PER_DEGREE_LAT;
+  const longDelta = latDelta / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+
+  const nearby = await db.building.findMany({
+    where: {
+      congregation_id: congregationId,
+      deletedAt: null,
+      lat: { gte: lat - latDelta, lte: lat + latDelta },
+      long: { gte: long - longDelta, lte: long + longDelta },
+    },
+    include: { Door: { where: { deletedAt: null }, orderBy: { idDoor: 'asc' } } },
+  });
+
+  return nearby
+    .map(building => ({
+      building,
+      distance: distanceMeters(lat, long, Number(building.lat), Number(building.long)),
+    }))
+    .filter(({ building, distance }) => distance <= radius && isSimilarAddress(address, building.address))
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ building, distance }) => ({
+      id: building.idBuilding,
+      lat: Number(building.lat),
+      long: Number(building.long),
+      address: building.address,
+      distance: Math.round(distance),
+      lastModified: building.last_modified,
+      doors: building.Door.map(door => ({ id: door.idDoor, label: door.information_name || '', language: door.language })),
+    }));
+}
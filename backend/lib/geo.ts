@@ -0,0 +1,89 @@
+// GeoJSON positions are [longitude, latitude], the reverse of the [lat, long] pairs
+// used for buildings
+export type Position = [number, number];
+
+// A type alias rather than an interface so that it can be stored in a Json column
+export type Polygon = {
+  type: 'Polygon';
+  // The outer ring first, then any holes; every ring ends where it starts
+  coordinates: Position[][];
+};
+
+const MAX_RING_POSITIONS = 1000;
+
+function isPosition(value: unknown): value is Position {
+  return Array.isArray(value)
+    && value.length >= 2
+    && typeof value[0] === 'number' && value[0] >= -180 && value[0] <= 180
+    && typeof value[1] === 'number' && value[1] >= -90 && value[1] <= 90;
+}
+
+// Validates a GeoJSON Polygon sent by a client. Extra position members such as
+// altitude are dropped, and rings that are not closed yet are closed.
+export function parsePolygon(value: unknown): Polygon | { error: string } {
+  if (typeof value !== 'object' || value === null || (value as { type?: unknown }).type !== 'Polygon') {
+    return { error: 'boundary must be a GeoJSON Polygon' };
+  }
+
+  const { coordinates } = value as { coordinates?: unknown };
+  if (!Array.isArray(coordinates) || coordinates.length === 0) {
+    return { error: 'boundary must have at least one ring' };
+  }
+
+  const rings: Position[][] = [];
+  for (const ring of coordinates) {
+    if (!Array.isArray(ring) || !ring.every(isPosition)) {
+      return { error: 'boundary positions must be [longitude, latitude] pairs' };
+    }
+
+    const positions = ring.map(([lng, lat]) => [lng, lat] as Position);
+    const [first] = positions;
+    const last = positions[positions.length - 1];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+      positions.push([first[0], first[1]]);
+    }
+
+    // A closed ring needs three distinct corners
+    if (positions.length < 4) {
+      return { error: 'boundary rings need at least three corners' };
+    }
+    if (positions.length > MAX_RING_POSITIONS) {
+      return { error: `boundary rings can have at most ${MAX_RING_POSITIONS} corners` };
+    }
+    rings.push(positions);
+  }
+
+  return { type: 'Polygon', coordinates: rings };
+}
+
+// Ray casting: whether [lng, lat] lies inside a ring. Points exactly on an edge may
+// land on either side, which is fine for assigning buildings.
+function ringContains(ring: Position[], lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Whether a point is inside a polygon's outer ring and outside all of its holes
+export function polygonContains(polygon: Polygon, lat: number, lng: number): boolean {
+  const [outer, ...holes] = polygon.coordinates;
+  return ringContains(outer, lng, lat) && !holes.some(hole => ringContains(hole, lng, lat));
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Great-circle distance in metres between two [lat, long] points (haversine)
+export function distanceMeters(lat1: number, long1: number, lat2: number, long2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLong = toRadians(long2 - long1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLong / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+
+// Helper to stringify BigInt and format response
+export function safeStringify(obj: unknown): string {
+  return JSON.stringify(obj, (_, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+export function jsonResponse(body: unknown, status = 200): NextResponse {
+  return new NextResponse(safeStringify(body), {
+    status,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+// Logs the error and returns the standard 500 body used by every route
+export function serverErrorResponse(method: string, error: unknown): NextResponse {
+  console.error(`${method} Error:`, error);
+  return jsonResponse({
+    error: 'Internal Server Error',
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, 500);
+}
+
+// CORS preflight response listing the methods a route supports
+export function optionsResponse(methods: string): NextResponse {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': `${methods}, OPTIONS`,
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
+
+// Parses a numeric route parameter, returning null when it is not a valid id
+export function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
@@ -0,0 +1,191 @@
+import type { Door, Language, Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// A reference to a Language row as sent by clients: either its name or its idLanguage
+export interface LanguageRef {
+  language?: string;
+  languageId?: number;
+}
+
+// Looks up the Language rows of a congregation referenced by name or id. Names are
+// matched case-insensitively, like the MySQL collation does. Returns an error naming
+// the first reference that is not configured for the congregation.
+export async function resolveLanguages(
+  db: Db,
+  congregationId: number,
+  refs: LanguageRef[]
+): Promise<Language[] | { error: string }> {
+  if (refs.length === 0) return [];
+
+  const names = Array.from(new Set(refs.flatMap(ref => (ref.languageId === undefined && ref.language ? [ref.language] : []))));
+  const ids = Array.from(new Set(refs.flatMap(ref => (ref.languageId !== undefined ? [ref.languageId] : []))));
+
+  const rows = await db.language.findMany({
+    where: {
+      id_cong_app: congregationId,
+      OR: [
+        ...(names.length > 0 ? [{ name: { in: names } }] : []),
+        ...(ids.length > 0 ? [{ idLanguage: { in: ids } }] : []),
+      ],
+    },
+  });
+
+  const byId = new Map(rows.map(row => [row.idLanguage, row]));
+  const byName = new Map(rows.map(row => [row.name.toLowerCase(), row]));
+
+  const resolved: Language[] = [];
+  for (const ref of refs) {
+    if (ref.languageId !== undefined) {
+      const row = byId.get(ref.languageId);
+      if (!row) {
+        return { error: `Unknown language id ${ref.languageId} for congregation ${congregationId}` };
+      }
+      resolved.push(row);
+      continue;
+    }
+
+    const row = ref.language ? byName.get(ref.language.toLowerCase()) : undefined;
+    if (!row) {
+      return { error: `Unknown language "${ref.language ?? ''}" for congregation ${congregationId}` };
+    }
+    resolved.push(row);
+  }
+
+  return resolved;
+}
+
+type DoorWithLanguage = Door & { Language: Language };
+
+// Picks the Language row used by most doors in a building; ties go to the language
+// of the earlier door
+export function predominantLanguage(doors: DoorWithLanguage[]): Language | undefined {
+  const counts = new Map<number, { count: number; language: Language }>();
+  for (const door of doors) {
+    const entry = counts.get(door.id_cong_lang) || { count: 0, language: door.Language };
+    entry.count += 1;
+    counts.set(door.id_cong_lang, entry);
+  }
+  let best: { count: number; language: Language } | undefined;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best?.language;
+}
+
+// Pin fields of a building, from the predominant language of its live doors
+export function buildingPin(doors: DoorWithLanguage[]) {
+  const language = predominantLanguage(doors);
+  const color = language?.Color ?? null;
+  return {
+    language: language?.name ?? null,
+    pinColor: color,
+    pinColorHex: language?.colorHex ?? null,
+    pinImage: color !== null ? `/pins/pin${color}.png` : '/pins/pin1.png',
+  };
+}
+
+// Pin colours map to the static /pins/pin0.png .. /pins/pin15.png images
+export const MAX_PIN_COLOR = 15;
+const MAX_NAME_LENGTH = 100;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface LanguageInput {
+  name?: string;
+  color?: number | null;
+  colorHex?: string | null;
+}
+
+// Validates a language create/update body. With `partial` every field is optional
+// (PATCH); otherwise the name is required (POST).
+export function parseLanguageInput(value: unknown, partial = false): LanguageInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { name, color, colorHex } = value as Record<string, unknown>;
+  const input: LanguageInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      return { error: 'name is required' };
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    input.name = name.trim();
+  }
+
+  if (color !== undefined) {
+    if (color !== null && (!Number.isInteger(color) || (color as number) < 0 || (color as number) > MAX_PIN_COLOR)) {
+      return { error: `color must be an integer from 0 to ${MAX_PIN_COLOR}` };
+    }
+    input.color = color as number | null;
+  }
+
+  // colorHex drives the SVG pins; the numbered colour stays as the PNG fallback
+  if (colorHex !== undefined) {
+    if (colorHex !== null && (typeof colorHex !== 'string' || !HEX_COLOR.test(colorHex))) {
+      return { error: 'colorHex must be a hex colour like #1e88e5' };
+    }
+    input.colorHex = colorHex === null ? null : colorHex.toLowerCase();
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+
+  return input;
+}
+
+// A language as returned by the language management API
+export function serializeLanguage(language: Language & { _count?: { Door: number } }) {
+  return {
+    id: language.idLanguage,
+    name: language.name,
+    color: language.Color,
+    colorHex: language.colorHex,
+    pinImage: language.Color != null ? `/pins/pin${language.Color}.png` : null,
+    congregationId: language.id_cong_app,
+    ...(language._count && { doorCount: language._count.Door }),
+  };
+}
+
+// Languages offered to a new congregation by the onboarding wizard, in pin colour
+// order. The congregation keeps the ones it picks and can edit them afterwards.
+export const DEFAULT_LANGUAGE_PALETTE: { name: string; color: number; colorHex: string }[] = [
+  { name: 'English', color: 0, colorHex: '#1e88e5' },
+  { name: 'Tamil', color: 1, colorHex: '#e53935' },
+  { name: 'Hindi', color: 2, colorHex: '#fb8c00' },
+  { name: 'Telugu', color: 3, colorHex: '#43a047' },
+  { name: 'Malayalam', color: 4, colorHex: '#8e24aa' },
+  { name: 'Kannada', color: 5, colorHex: '#fdd835' },
+  { name: 'Urdu', color: 6, colorHex: '#00897b' },
+  { name: 'Bengali', color: 7, colorHex: '#6d4c41' },
+  { name: 'Marathi', color: 8, colorHex: '#d81b60' },
+  { name: 'Gujarati', color: 9, colorHex: '#3949ab' },
+];
+
+// Validates the language list of an onboarding body: at least one language, no
+// name twice (case-insensitively, like the MySQL collation)
+export function parseLanguageList(value: unknown): LanguageInput[] | { error: string } {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'languages must be a non-empty array' };
+  }
+
+  const languages: LanguageInput[] = [];
+  const names = new Set<string>();
+  for (const [index, item] of value.entries()) {
+    const language = parseLanguageInput(item);
+    if ('error' in language) {
+      return { error: `languages[${index}]: ${language.error}` };
+    }
+    const key = language.name!.toLowerCase();
+    if (names.has(key)) {
+      return { error: `Language "${language.name}" is listed more than once` };
+    }
+    names.add(key);
+    languages.push(language);
+  }
+  return languages;
+}
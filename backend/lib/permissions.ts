@@ -0,0 +1,54 @@
+import type { NextResponse } from 'next/server';
+import type { Session } from '@/lib/auth';
+import { jsonResponse } from '@/lib/http';
+
+// Roles from least to most privileged; each role can do everything the ones before it can
+export const ROLES = ['publisher', 'group_overseer', 'territory_servant', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Least privileged role allowed to do each thing
+const MINIMUM_ROLE = {
+  // Add buildings and doors and edit their details
+  'buildings:edit': 'publisher',
+  // Log calls at doors
+  'visits:log': 'publisher',
+  // Delete buildings and doors, restore them from the recycle bin and revert history
+  'buildings:delete': 'group_overseer',
+  // Clear a door's do-not-call request
+  'do-not-call:clear': 'group_overseer',
+  // Manage the territories of one's own group (Login.group_name)
+  'territories:manage-group': 'group_overseer',
+  // Manage every territory, territory assignments and the publisher roster
+  'territories:manage': 'territory_servant',
+  'assignments:manage': 'territory_servant',
+  'publishers:manage': 'territory_servant',
+  // Delete buildings and doors for good
+  'buildings:purge': 'territory_servant',
+  'languages:manage': 'admin',
+  'users:manage': 'admin',
+  // Congregation name, main language and map centre
+  'congregation:manage': 'admin',
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof MINIMUM_ROLE;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+// Unknown values stored in Login.role are treated as the least privileged role
+export function toRole(value: string): Role {
+  return isRole(value) ? value : 'publisher';
+}
+
+export function can(role: Role, permission: Permission): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(MINIMUM_ROLE[permission]);
+}
+
+// The 403 to send when the session's role lacks `permission`, or null when allowed
+export function requirePermission(session: Session, permission: Permission): NextResponse | null {
+  return can(session.role, permission)
+    ? null
+    : jsonResponse({ error: 'Your role does not allow this action', permission }, 403);
+}
@@ -0,0 +1,62 @@
+import type { NextResponse } from 'next/server';
+import type { Login, Prisma, PrismaClient, Publisher } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { forbiddenResponse } from '@/lib/congregation';
+import { jsonResponse, parseId } from '@/lib/http';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MAX_NAME_LENGTH = 255;
+
+export interface PublisherInput {
+  name: string;
+}
+
+// Validates a publisher create/update body; the name is the only field
+export function parsePublisherInput(value: unknown): PublisherInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { name } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || name.trim() === '') {
+    return { error: 'name is required' };
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  return { name: name.trim() };
+}
+
+// Loads a publisher by id: 400 for a bad id, 404 when it does not exist, 403 when it
+// belongs to another congregation. Takes a route id or an integer from a request body.
+export async function findPublisher(
+  db: Db,
+  session: Session,
+  id: string | number
+): Promise<{ response: NextResponse } | { publisher: Publisher }> {
+  const publisherId = typeof id === 'number' ? id : parseId(id);
+  if (publisherId === null) {
+    return { response: jsonResponse({ error: 'Invalid publisher ID' }, 400) };
+  }
+
+  const publisher = await db.publisher.findUnique({ where: { idPublisher: publisherId } });
+  if (!publisher) {
+    return { response: jsonResponse({ error: 'Publisher not found' }, 404) };
+  }
+  if (publisher.congregation_id !== session.congregationId) {
+    return { response: forbiddenResponse() };
+  }
+  return { publisher };
+}
+
+// A publisher as returned by the publisher API, with the login linked to it
+export function serializePublisher(publisher: Publisher & { Login?: Login | null }) {
+  return {
+    id: publisher.idPublisher,
+    name: publisher.name,
+    congregationId: publisher.congregation_id,
+    loginId: publisher.Login?.id ?? null,
+    loginName: publisher.Login?.name ?? null,
+  };
+}
@@ -0,0 +1,143 @@
+import type { NextResponse } from 'next/server';
+import type { Building, Door, Prisma, PrismaClient, Publisher, ReturnVisit } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { forbiddenResponse } from '@/lib/congregation';
+import { serializeDoNotCall } from '@/lib/doors';
+import { jsonResponse, parseId } from '@/lib/http';
+import { can } from '@/lib/permissions';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const MAX_NOTES_LENGTH = 2000;
+
+// Return visits are read with their door, its building and the assigned publisher
+export const WITH_DOOR = { Door: { include: { Building: true } }, Publisher: true } as const;
+
+export type ReturnVisitRow = ReturnVisit & {
+  Door: Door & { Building: Building | null };
+  Publisher: Publisher | null;
+};
+
+export interface ReturnVisitInput {
+  dueDate?: Date;
+  // Defaults to the publisher linked to the caller's login when scheduling
+  publisherId?: number | null;
+  notes?: string | null;
+  // Visit the follow-up came out of; only taken when scheduling
+  visitId?: number | null;
+  // Only taken when updating: true marks the return visit made, false reopens it
+  completed?: boolean;
+}
+
+// Validates a return-visit body: { dueDate, publisherId?, notes?, visitId? } when
+// scheduling and any of { dueDate, publisherId, notes, completed } when updating
+// (`partial`). dueDate is a date such as "2026-06-30".
+export function parseReturnVisitInput(value: unknown, partial: boolean): ReturnVisitInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { dueDate, publisherId, notes, visitId, completed } = value as Record<string, unknown>;
+  const input: ReturnVisitInput = {};
+
+  if (dueDate !== undefined || !partial) {
+    const date = typeof dueDate === 'string' && dueDate !== '' ? new Date(dueDate) : null;
+    if (!date || isNaN(date.getTime())) {
+      return { error: 'dueDate must be a date' };
+    }
+    input.dueDate = date;
+  }
+
+  if (publisherId !== undefined) {
+    if (publisherId !== null && !Number.isInteger(publisherId)) {
+      return { error: 'publisherId must be an integer or null' };
+    }
+    input.publisherId = publisherId as number | null;
+  }
+
+  if (notes !== undefined) {
+    if (notes !== null && (typeof notes !== 'string' || notes.trim().length > MAX_NOTES_LENGTH)) {
+      return { error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` };
+    }
+    input.notes = typeof notes === 'string' ? notes.trim() || null : null;
+  }
+
+  if (!partial && visitId !== undefined && visitId !== null) {
+    if (!Number.isInteger(visitId)) {
+      return { error: 'visitId must be an integer' };
+    }
+    input.visitId = visitId as number;
+  }
+
+  if (partial && completed !== undefined) {
+    if (typeof completed !== 'boolean') {
+      return { error: 'completed must be a boolean' };
+    }
+    input.completed = completed;
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+  return input;
+}
+
+// Loads a return visit for changing it: 400 for a bad id, 404 when it does not exist,
+// 403 when it belongs to another congregation, or to another publisher and the
+// session may not manage assignments
+export async function findReturnVisit(
+  db: Db,
+  session: Session,
+  id: string
+): Promise<{ response: NextResponse } | { returnVisit: ReturnVisitRow }> {
+  const returnVisitId = parseId(id);
+  if (returnVisitId === null) {
+    return { response: jsonResponse({ error: 'Invalid return visit ID' }, 400) };
+  }
+
+  const returnVisit = await db.returnVisit.findUnique({
+    where: { id: returnVisitId },
+    include: WITH_DOOR,
+  });
+  if (!returnVisit) {
+    return { response: jsonResponse({ error: 'Return visit not found' }, 404) };
+  }
+  if (returnVisit.congregation_id !== session.congregationId) {
+    return { response: forbiddenResponse() };
+  }
+  const isAssignee = returnVisit.publisher_id !== null && returnVisit.publisher_id === session.publisherId;
+  if (!isAssignee && !can(session.role, 'assignments:manage')) {
+    return { response: forbiddenResponse() };
+  }
+  return { returnVisit };
+}
+
+// Midnight UTC of today, the same form as a due_date read from the database
+export function startOfToday(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// A return visit as returned by the API, with what the list needs to find the door
+export function serializeReturnVisit(row: ReturnVisitRow, today = startOfToday()) {
+  const building = row.Door.Building;
+  return {
+    id: row.id,
+    doorId: row.door_id,
+    doorLabel: row.Door.information_name || '',
+    language: row.Door.language,
+    buildingId: building?.idBuilding ?? null,
+    lat: building ? Number(building.lat) : null,
+    long: building ? Number(building.long) : null,
+    address: building?.address ?? null,
+    publisherId: row.publisher_id,
+    publisherName: row.Publisher?.name ?? null,
+    visitId: row.visit_id,
+    dueDate: row.due_date,
+    overdue: !row.completedAt && row.due_date.getTime() < today.getTime(),
+    notes: row.notes,
+    completedAt: row.completedAt,
+    createdBy: row.created_by,
+    // The door asked not to be called since the visit was scheduled
+    doNotCall: serializeDoNotCall(row.Door) !== null,
+  };
+}
@@ -0,0 +1,172 @@
+import type { NextResponse } from 'next/server';
+import type { Prisma, PrismaClient, Territory } from '@prisma/client';
+import type { Session } from '@/lib/auth';
+import { forbiddenResponse } from '@/lib/congregation';
+import { jsonResponse, parseId } from '@/lib/http';
+import { parsePolygon, polygonContains, type Polygon } from '@/lib/geo';
+import { can } from '@/lib/permissions';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface TerritoryCounts {
+  buildingCount: number;
+  doorCount: number;
+}
+
+const MAX_NAME_LENGTH = 255;
+const MAX_GROUP_NAME_LENGTH = 100;
+
+export interface TerritoryInput {
+  name?: string;
+  groupName?: string | null;
+  boundary?: Polygon | null;
+}
+
+// Validates a territory create/update body. With `partial` every field is optional
+// (PATCH); otherwise the name is required (POST).
+export function parseTerritoryInput(value: unknown, partial = false): TerritoryInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { name, groupName, boundary } = value as Record<string, unknown>;
+  const input: TerritoryInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      return { error: 'name is required' };
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    input.name = name.trim();
+  }
+
+  if (groupName !== undefined) {
+    if (groupName !== null && (typeof groupName !== 'string' || groupName.trim().length > MAX_GROUP_NAME_LENGTH)) {
+      return { error: `groupName must be a string of at most ${MAX_GROUP_NAME_LENGTH} characters or null` };
+    }
+    input.groupName = groupName === null || groupName.trim() === '' ? null : groupName.trim();
+  }
+
+  if (boundary !== undefined) {
+    if (boundary === null) {
+      input.boundary = null;
+    } else {
+      const polygon = parsePolygon(boundary);
+      if ('error' in polygon) return polygon;
+      input.boundary = polygon;
+    }
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    return { error: 'Nothing to update' };
+  }
+
+  return input;
+}
+
+// Territory servants and admins manage every territory; group overseers only
+// those of their own service group
+export function canManageTerritory(session: Session, groupName: string | null): boolean {
+  if (can(session.role, 'territories:manage')) return true;
+  return can(session.role, 'territories:manage-group')
+    && session.groupName !== null
+    && groupName === session.groupName;
+}
+
+// Loads a territory from a route id: 400 for a bad id, 404 when it does not exist,
+// 403 when it belongs to another congregation
+export async function findTerritory(
+  db: Db,
+  session: Session,
+  id: string
+): Promise<{ response: NextResponse } | { territory: Territory }> {
+  const territoryId = parseId(id);
+  if (territoryId === null) {
+    return { response: jsonResponse({ error: 'Invalid territory ID' }, 400) };
+  }
+
+  const territory = await db.territory.findUnique({ where: { idTerritory: territoryId } });
+  if (!territory) {
+    return { response: jsonResponse({ error: 'Territory not found' }, 404) };
+  }
+  if (territory.congregation_id !== session.congregationId) {
+    return { response: forbiddenResponse() };
+  }
+  return { territory };
+}
+
+// A territory as returned by the territory API
+export function serializeTerritory(
+  territory: Territory,
+  counts?: TerritoryCounts
+) {
+  return {
+    id: territory.idTerritory,
+    name: territory.name,
+    groupName: territory.group_name,
+    congregationId: territory.congregation_id,
+    boundary: territory.boundary as Polygon | null,
+    ...counts,
+  };
+}
+
+// Buildings and doors outside the recycle bin per territory of a congregation,
+// keyed by territory id (null for buildings without a territory)
+export async function countTerritoryContents(
+  db: Db,
+  congregationId: number
+): Promise<Map<number | null, TerritoryCounts>> {
+  const buildings = await db.building.findMany({
+    where: { congregation_id: congregationId, deletedAt: null },
+    select: { territory_id: true, _count: { select: { Door: { where: { deletedAt: null } } } } },
+  });
+
+  const counts = new Map<number | null, TerritoryCounts>();
+  for (const building of buildings) {
+    const entry = counts.get(building.territory_id) ?? { buildingCount: 0, doorCount: 0 };
+    entry.buildingCount += 1;
+    entry.doorCount += building._count.Door;
+    counts.set(building.territory_id, entry);
+  }
+  return counts;
+}
+
+// How a building's position matched the territory boundaries:
+// - matched: inside exactly one territory
+// - ambiguous: inside several overlapping territories, so none is picked
+// - outside: outside every territory that has a boundary
+// - no-boundaries: the congregation has not drawn any boundary yet
+export type TerritoryMatchStatus = 'matched' | 'ambiguous' | 'outside' | 'no-boundaries';
+
+export interface TerritoryMatch {
+  status: TerritoryMatchStatus;
+  territoryId: number | null;
+  candidateIds: number[];
+}
+
+// Territories of a congregation that have a boundary, for matchTerritory
+export async function findBoundedTerritories(db: Db, congregationId: number): Promise<Territory[]> {
+  const territories = await db.territory.findMany({
+    where: { congregation_id: congregationId },
+    orderBy: { idTerritory: 'asc' },
+  });
+  return territories.filter(territory => territory.boundary !== null);
+}
+
+// Finds the territory whose boundary contains a position
+export function matchTerritory(territories: Territory[], lat: number, long: number): TerritoryMatch {
+  if (territories.length === 0) {
+    return { status: 'no-boundaries', territoryId: null, candidateIds: [] };
+  }
+
+  const candidateIds = territories
+    .filter(territory => polygonContains(territory.boundary as Polygon, lat, long))
+    .map(territory => territory.idTerritory);
+
+  if (candidateIds.length === 1) {
+    return { status: 'matched', territoryId: candidateIds[0], candidateIds };
+  }
+  return { status: candidateIds.length === 0 ? 'outside' : 'ambiguous', territoryId: null, candidateIds };
+}
@@ -0,0 +1,86 @@
+import type { DoorVisit, Publisher } from '@prisma/client';
+
+// Values of DoorVisit.outcome
+export const VISIT_OUTCOMES = [
+  'not_home',
+  'spoke',
+  'language_confirmed',
+  'wrong_language',
+  'moved',
+  'do_not_call',
+] as const;
+
+export type VisitOutcome = (typeof VISIT_OUTCOMES)[number];
+
+const MAX_NOTES_LENGTH = 2000;
+
+// Visits are read with their publisher, so renamed publishers show their current name
+export const WITH_PUBLISHER = { Publisher: true } as const;
+
+export interface VisitInput {
+  outcome: VisitOutcome;
+  notes: string | null;
+  // Defaults to the publisher linked to the caller's login
+  publisherId?: number | null;
+  // Defaults to now
+  visitedAt?: Date;
+}
+
+export function isVisitOutcome(value: unknown): value is VisitOutcome {
+  return typeof value === 'string' && (VISIT_OUTCOMES as readonly string[]).includes(value);
+}
+
+// Validates a visit body: { outcome, notes?, publisherId?, visitedAt? }. Visits
+// cannot be logged in the future.
+export function parseVisitInput(value: unknown): VisitInput | { error: string } {
+  if (typeof value !== 'object' || value === null) {
+    return { error: 'Body must be an object' };
+  }
+
+  const { outcome, notes, publisherId, visitedAt } = value as Record<string, unknown>;
+  if (!isVisitOutcome(outcome)) {
+    return { error: `outcome must be one of ${VISIT_OUTCOMES.join(', ')}` };
+  }
+
+  const input: VisitInput = { outcome, notes: null };
+  if (notes !== undefined && notes !== null) {
+    if (typeof notes !== 'string' || notes.trim().length > MAX_NOTES_LENGTH) {
+      return { error: `notes must be a string of at most ${MAX_NOTES_LENGTH} characters` };
+    }
+    input.notes = notes.trim() || null;
+  }
+
+  if (publisherId !== undefined) {
+    if (publisherId !== null && !Number.isInteger(publisherId)) {
+      return { error: 'publisherId must be an integer or null' };
+    }
+    input.publisherId = publisherId as number | null;
+  }
+
+  if (visitedAt !== undefined && visitedAt !== null) {
+    const date = typeof visitedAt === 'string' ? new Date(visitedAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      return { error: 'visitedAt must be an ISO date' };
+    }
+    if (date.getTime() > Date.now()) {
+      return { error: 'visitedAt cannot be in the future' };
+    }
+    input.visitedAt = date;
+  }
+
+  return input;
+}
+
+// A visit as returned by the visit API
+export function serializeVisit(visit: DoorVisit & { Publisher?: Publisher | null }) {
+  return {
+    id: visit.id,
+    doorId: visit.door_id,
+    outcome: visit.outcome,
+    notes: visit.notes,
+    publisherId: visit.publisher_id,
+    publisherName: visit.Publisher?.name ?? null,
+    visitedAt: visit.visitedAt,
+    recordedBy: visit.recorded_by,
+  };
+}
@@ -0,0 +1,21 @@
+-- One-off backfill for rows written before buildings carried their congregation.
+-- A building takes the congregation of its doors; territory_id used to default to
+-- 1, so the territory is only used for buildings without any door.
+UPDATE `gps_vr2`.`Building` `b`
+  JOIN (
+    SELECT `building_id`, MIN(`id_cong_app`) AS `id_cong_app`
+    FROM `gps_vr2`.`Door`
+    GROUP BY `building_id`
+  ) `d` ON `d`.`building_id` = `b`.`idBuilding`
+SET `b`.`congregation_id` = `d`.`id_cong_app`
+WHERE `b`.`congregation_id` IS NULL;
+
+UPDATE `gps_vr2`.`Building` `b`
+  JOIN `gps_vr2`.`Territory` `t` ON `t`.`idTerritory` = `b`.`territory_id`
+SET `b`.`congregation_id` = `t`.`congregation_id`
+WHERE `b`.`congregation_id` IS NULL;
+
+UPDATE `gps_vr2`.`AuditLog` `a`
+  JOIN `gps_vr2`.`Building` `b` ON `b`.`idBuilding` = `a`.`building_id`
+SET `a`.`congregation_id` = `b`.`congregation_id`
+WHERE `a`.`congregation_id` IS NULL;
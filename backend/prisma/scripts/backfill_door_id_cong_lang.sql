@@ -0,0 +1,9 @@
+-- One-off backfill for doors written before id_cong_lang was resolved from the
+-- Language table (they were all stored with id_cong_lang = 1). Points each door
+-- at the Language row of its congregation whose name matches Door.language.
+UPDATE `gps_vr2`.`Door` `d`
+  JOIN `gps_vr2`.`Language` `l`
+    ON `l`.`id_cong_app` = `d`.`id_cong_app`
+   AND `l`.`name` = `d`.`language`
+SET `d`.`id_cong_lang` = `l`.`idLanguage`
+WHERE `d`.`id_cong_lang` <> `l`.`idLanguage`;
@@ -0,0 +1,11 @@
+-- One-off backfill for congregations whose logins were created before roles
+-- existed (they all default to publisher). Makes the oldest login of every
+-- congregation without an admin its admin, so someone can assign the other roles.
+UPDATE `gps_vr2`.`Login` `l`
+  JOIN (
+    SELECT MIN(`id`) AS `id`
+    FROM `gps_vr2`.`Login`
+    GROUP BY `congregationNumber`
+    HAVING SUM(`role` = 'admin') = 0
+  ) `first` ON `first`.`id` = `l`.`id`
+SET `l`.`role` = 'admin';
@@ -0,0 +1,13 @@
+-- One-off backfill for GPS_VR2_STRUCTURE rows written before publisher_id existed.
+-- Links each row to the publisher of its congregation whose name matches `User_name`;
+-- names that match no publisher, or more than one, are left unlinked.
+UPDATE `gps_vr2`.`GPS_VR2_STRUCTURE` `s`
+  JOIN (
+    SELECT `congregation_id`, `name`, MIN(`idPublisher`) AS `idPublisher`
+    FROM `gps_vr2`.`Publisher`
+    GROUP BY `congregation_id`, `name`
+    HAVING COUNT(*) = 1
+  ) `p`
+    ON `p`.`congregation_id` = `s`.`id_cong` AND `p`.`name` = `s`.`User_name`
+SET `s`.`publisher_id` = `p`.`idPublisher`
+WHERE `s`.`publisher_id` IS NULL;
@@ -0,0 +1,8 @@
+-- One-off backfill for GPS_VR2_STRUCTURE rows written before territory_id existed.
+-- Links each row to the territory of its congregation whose name matches `Terri`;
+-- rows without a matching territory keep territory_id NULL and stay out of the ledger.
+UPDATE `gps_vr2`.`GPS_VR2_STRUCTURE` `s`
+  JOIN `gps_vr2`.`Territory` `t`
+    ON `t`.`congregation_id` = `s`.`id_cong` AND `t`.`name` = `s`.`Terri`
+SET `s`.`territory_id` = `t`.`idTerritory`
+WHERE `s`.`territory_id` IS NULL;
@@ -9,22 +9,26 @@ SELECT
   `d`.`language` AS `language`,
   `d`.`id_cong_app` AS `congregationId`,
   `l`.`Color` AS `pinColor`,
+  `l`.`colorHex` AS `pinColorHex`,
   concat('/pins/pin', `l`.`Color`, '.png') AS `pinImage`
 FROM
   (
     (
       `gps_vr2`.`Building` `b`
-      LEFT JOIN `gps_vr2`.`Door` `d` ON((`d`.`building_id` = `b`.`idBuilding`))
-    )
-    LEFT JOIN `gps_vr2`.`Language` `l` ON(
-      (
-        (`l`.`id_cong_app` = `d`.`id_cong_app`)
-        AND (`l`.`name` = `d`.`language`)
+      LEFT JOIN `gps_vr2`.`Door` `d` ON(
+        (
+          (`d`.`building_id` = `b`.`idBuilding`)
+          AND (`d`.`deletedAt` IS NULL)
+        )
       )
     )
+    LEFT JOIN `gps_vr2`.`Language` `l` ON((`l`.`idLanguage` = `d`.`id_cong_lang`))
   )
 WHERE
-  (`b`.`last_modified` >= (NOW() - INTERVAL 1 DAY))
+  (
+    (`b`.`last_modified` >= (NOW() - INTERVAL 1 DAY))
+    AND (`b`.`deletedAt` IS NULL)
+  )
 GROUP BY
   `b`.`idBuilding`,
   `b`.`lat`,
@@ -33,4 +37,5 @@ GROUP BY
   `b`.`last_modified`,
   `d`.`language`,
   `d`.`id_cong_app`,
-  `l`.`Color`
\ No newline at end of file
+  `l`.`Color`,
+  `l`.`colorHex`
\ No newline at end of file
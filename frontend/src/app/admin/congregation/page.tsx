@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import { Save } from 'lucide-react';
+import type { MapViewport } from '../../components/Map';
+import { apiFetch } from '../../../lib/api';
+import type { MapView } from '../../../lib/geo';
+import { useCongregation } from '../../../hooks/useCongregation';
+import { useLanguages } from '../../../hooks/useLanguages';
+import { useRequireSession } from '../../../hooks/useSession';
+import { can } from '../../../lib/permissions';
+
+const Map = dynamic(() => import('../../components/Map'), { ssr: false });
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const CongregationSettingsPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const canManage = can(user?.role, 'congregation:manage');
+  const { congregation, defaultView, setCongregation } = useCongregation(user?.congregationId);
+  const { languages } = useLanguages(user?.congregationId);
+
+  const [name, setName] = useState('');
+  const [language, setLanguage] = useState('');
+  const [view, setView] = useState<MapView | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (!congregation) return;
+    setName(congregation.name || '');
+    setLanguage(congregation.language || '');
+  }, [congregation]);
+
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    setView({ center: viewport.center, zoom: Math.round(viewport.zoom) });
+  }, []);
+
+  const handleSave = async () => {
+    if (!user || !name.trim()) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/congregation/${user.congregationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          ...(language && { language }),
+          ...(view && { mapCenter: { lat: view.center[0], long: view.center[1], zoom: view.zoom } }),
+        }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setCongregation(result.congregation);
+      setView(null);
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+    } catch (error) {
+      console.error('[CongregationSettingsPage] PATCH failed:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user || !defaultView) {
+    return <LoadingSpinner />;
+  }
+
+  if (!canManage) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center p-4">
+        <p className="text-gray-600">Only admins can change the congregation settings.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Congregation</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+              maxLength={255}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Main language</label>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className={inputClassName}
+            >
+              {!language && <option value="">Not set</option>}
+              {languages.map(item => (
+                <option key={item.id} value={item.name}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Map centre</label>
+            <p className="text-sm text-gray-500 mb-2">
+              {congregation?.mapCenter
+                ? 'Maps open here when a publisher\'s location is not known. Move the map to change it.'
+                : 'Not set yet. Move the map so it shows your territory.'}
+            </p>
+            <div className="h-72 rounded-md overflow-hidden border border-gray-300">
+              <Map
+                center={defaultView.center}
+                zoom={defaultView.zoom}
+                onViewportChange={handleViewportChange}
+                autoFitBounds={false}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !name.trim()}
+              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Save size={16} />
+              <span>Save</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CongregationSettingsPage;
@@ -0,0 +1,293 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { apiFetch } from '../../../lib/api';
+import { useLanguages } from '../../../hooks/useLanguages';
+import { useRequireSession } from '../../../hooks/useSession';
+import { can } from '../../../lib/permissions';
+import type { Language } from '../../../types';
+
+// Pin colours available as /pins/pinN.png
+const PIN_COLORS = Array.from({ length: 16 }, (_, index) => index);
+
+interface LanguageDraft {
+  name: string;
+  color: number | null;
+  colorHex: string | null;
+}
+
+const ColorPicker: React.FC<{
+  value: number | null;
+  onChange: (color: number | null) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex flex-wrap gap-1">
+    {PIN_COLORS.map(color => (
+      <button
+        key={color}
+        type="button"
+        onClick={() => onChange(value === color ? null : color)}
+        className={`p-0.5 rounded border-2 ${value === color ? 'border-purple-600' : 'border-transparent hover:border-gray-300'}`}
+        title={`Colour ${color}`}
+        aria-pressed={value === color}
+      >
+        <Image src={`/pins/pin${color}.png`} alt={`Colour ${color}`} width={20} height={20} />
+      </button>
+    ))}
+  </div>
+);
+
+// Hex colour used for the SVG pins; cleared, the pin falls back to the PNG colour above
+const HexColorInput: React.FC<{
+  value: string | null;
+  onChange: (colorHex: string | null) => void;
+}> = ({ value, onChange }) => (
+  <div className="flex items-center space-x-2 text-sm">
+    <label className="flex items-center space-x-2">
+      <span className="text-gray-600">Pin colour</span>
+      <input
+        type="color"
+        value={value || '#6b7280'}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 w-12 border border-gray-300 rounded"
+      />
+    </label>
+    {value ? (
+      <button
+        type="button"
+        onClick={() => onChange(null)}
+        className="text-purple-600 hover:underline"
+      >
+        Use image pin
+      </button>
+    ) : (
+      <span className="text-gray-400">Using image pin</span>
+    )}
+  </div>
+);
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const LanguagesContent: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const congregationId = user?.congregationId;
+  const { languages, isLoading, error, reload } = useLanguages(congregationId);
+
+  const [drafts, setDrafts] = useState<Record<number, LanguageDraft>>({});
+  const [newLanguage, setNewLanguage] = useState<LanguageDraft>({ name: '', color: null, colorHex: null });
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const baseUrl = `/congregation/${congregationId}/languages`;
+
+  const draftFor = (language: Language): LanguageDraft =>
+    drafts[language.id] || { name: language.name, color: language.color, colorHex: language.colorHex };
+
+  const updateDraft = (language: Language, changes: Partial<LanguageDraft>) => {
+    setDrafts(prev => ({ ...prev, [language.id]: { ...draftFor(language), ...changes } }));
+  };
+
+  const isDirty = (language: Language) => {
+    const draft = drafts[language.id];
+    return !!draft && (
+      draft.name !== language.name || draft.color !== language.color || draft.colorHex !== language.colorHex
+    );
+  };
+
+  // Sends a request and reloads the list, surfacing the API error message on failure
+  const submit = async (url: string, method: string, body?: LanguageDraft) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+      await reload();
+      return true;
+    } catch (err) {
+      console.error(`[LanguagesPage] ${method} failed:`, err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newLanguage.name.trim()) return;
+    const ok = await submit(baseUrl, 'POST', { ...newLanguage, name: newLanguage.name.trim() });
+    if (ok) setNewLanguage({ name: '', color: null, colorHex: null });
+  };
+
+  const handleSave = async (language: Language) => {
+    const ok = await submit(`${baseUrl}/${language.id}`, 'PATCH', draftFor(language));
+    if (ok) {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[language.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (language: Language) => {
+    if (!confirm(`Delete the language "${language.name}"?`)) return;
+    await submit(`${baseUrl}/${language.id}`, 'DELETE');
+  };
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  if (!can(user.role, 'languages:manage')) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center p-4">
+        <p className="text-gray-600">Only admins can manage the congregation&apos;s languages.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Languages</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Add Language */}
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <h2 className="font-semibold">Add language</h2>
+          <input
+            type="text"
+            value={newLanguage.name}
+            onChange={(e) => setNewLanguage(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            placeholder="Language name, e.g. Tamil"
+          />
+          <ColorPicker
+            value={newLanguage.color}
+            onChange={(color) => setNewLanguage(prev => ({ ...prev, color }))}
+          />
+          <HexColorInput
+            value={newLanguage.colorHex}
+            onChange={(colorHex) => setNewLanguage(prev => ({ ...prev, colorHex }))}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isSaving || !newLanguage.name.trim()}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Plus size={16} />
+            <span>Add</span>
+          </button>
+        </div>
+
+        {/* Language List */}
+        {isLoading && languages.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading languages...</div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">{error}</div>
+        ) : languages.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No languages configured yet.</div>
+        ) : (
+          languages.map(language => {
+            const draft = draftFor(language);
+            return (
+              <div key={language.id} className="bg-white rounded-lg shadow p-4 space-y-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => updateDraft(language, { name: e.target.value })}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    aria-label="Language name"
+                  />
+                  <span className="text-sm text-gray-500 whitespace-nowrap">
+                    {language.doorCount ?? 0} doors
+                  </span>
+                </div>
+                <ColorPicker
+                  value={draft.color}
+                  onChange={(color) => updateDraft(language, { color })}
+                />
+                <HexColorInput
+                  value={draft.colorHex}
+                  onChange={(colorHex) => updateDraft(language, { colorHex })}
+                />
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={() => handleDelete(language)}
+                    disabled={isSaving || (language.doorCount ?? 0) > 0}
+                    className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                    title={(language.doorCount ?? 0) > 0 ? 'Languages used by doors cannot be deleted' : 'Delete language'}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleSave(language)}
+                    disabled={isSaving || !isDirty(language) || !draft.name.trim()}
+                    className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+                  >
+                    <Save size={16} />
+                    <span>Save</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+const LanguagesPage: React.FC = () => {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <LanguagesContent />
+    </Suspense>
+  );
+};
+
+export default LanguagesPage;
@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, Save, X } from 'lucide-react';
+import { apiFetch } from '../../../lib/api';
+import { usePublishers } from '../../../hooks/usePublishers';
+import { useRequireSession } from '../../../hooks/useSession';
+import { ROLES, ROLE_LABELS, can, type Role } from '../../../lib/permissions';
+import type { User } from '../../../types';
+
+interface UserDraft {
+  role: Role;
+  groupName: string;
+  // '' when no publisher is linked
+  publisherId: string;
+}
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const UsersPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const canManage = can(user?.role, 'users:manage');
+  const { publishers, reload: reloadPublishers } = usePublishers(canManage);
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, UserDraft>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await apiFetch('/users');
+      if (!res.ok) {
+        throw new Error(`Failed to load users: ${res.status} ${res.statusText}`);
+      }
+      const data: { users: User[] } = await res.json();
+      setUsers(data.users);
+    } catch (error) {
+      console.error('[UsersPage] Error loading users:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canManage) loadUsers();
+  }, [canManage, loadUsers]);
+
+  const draftFor = (target: User): UserDraft =>
+    drafts[target.id] || {
+      role: target.role,
+      groupName: target.groupName || '',
+      publisherId: target.publisherId === null ? '' : String(target.publisherId),
+    };
+
+  const updateDraft = (target: User, changes: Partial<UserDraft>) => {
+    setDrafts(prev => ({ ...prev, [target.id]: { ...draftFor(target), ...changes } }));
+  };
+
+  const isDirty = (target: User) => {
+    const draft = drafts[target.id];
+    return !!draft && (
+      draft.role !== target.role
+      || draft.groupName !== (target.groupName || '')
+      || draft.publisherId !== (target.publisherId === null ? '' : String(target.publisherId))
+    );
+  };
+
+  const handleSave = async (target: User) => {
+    const draft = draftFor(target);
+    setSavingId(target.id);
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/users/${target.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          role: draft.role,
+          groupName: draft.groupName.trim() || null,
+          publisherId: draft.publisherId ? Number(draft.publisherId) : null,
+        }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setUsers(prev => prev.map(item => (item.id === target.id ? result.user : item)));
+      if (draft.publisherId !== (target.publisherId === null ? '' : String(target.publisherId))) {
+        reloadPublishers();
+      }
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[target.id];
+        return next;
+      });
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+    } catch (error) {
+      console.error('[UsersPage] PATCH failed:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Approves a self-registered login, or rejects (deletes) it
+  const handleApproval = async (target: User, approve: boolean) => {
+    if (!approve && !confirm(`Reject the registration of ${target.name}?`)) return;
+    setSavingId(target.id);
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/users/${target.id}`, {
+        method: approve ? 'PATCH' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        ...(approve && { body: JSON.stringify({ approved: true }) }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setUsers(prev => approve
+        ? prev.map(item => (item.id === target.id ? result.user : item))
+        : prev.filter(item => item.id !== target.id));
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+    } catch (error) {
+      console.error(`[UsersPage] ${approve ? 'Approval' : 'Rejection'} failed:`, error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  if (!canManage) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center p-4">
+        <p className="text-gray-600">Only admins can manage users.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Users</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {isLoading && users.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading...</div>
+        ) : (
+          <div className="space-y-2">
+            {users.map(target => {
+              const draft = draftFor(target);
+              return (
+                <div key={target.id} className="bg-white rounded-lg shadow p-4 space-y-3">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">
+                      {target.name}
+                      {target.id === user.loginId && <span className="text-gray-400 font-normal"> (you)</span>}
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">{target.email}</div>
+                  </div>
+                  {!target.approved && (
+                    <div className="flex items-center justify-between gap-2 p-2 rounded-md border border-amber-200 bg-amber-50">
+                      <span className="text-sm text-amber-800">Waiting for approval</span>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleApproval(target, false)}
+                          disabled={savingId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50 disabled:text-gray-300"
+                        >
+                          <X size={14} />
+                          <span>Reject</span>
+                        </button>
+                        <button
+                          onClick={() => handleApproval(target, true)}
+                          disabled={savingId !== null}
+                          className="flex items-center space-x-1 px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 disabled:bg-gray-300"
+                        >
+                          <Check size={14} />
+                          <span>Approve</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={draft.role}
+                      onChange={(e) => updateDraft(target, { role: e.target.value as Role })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      aria-label="Role"
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={draft.groupName}
+                      onChange={(e) => updateDraft(target, { groupName: e.target.value })}
+                      className="flex-1 min-w-[8rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="Service group"
+                      maxLength={100}
+                    />
+                    <select
+                      value={draft.publisherId}
+                      onChange={(e) => updateDraft(target, { publisherId: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      aria-label="Publisher"
+                    >
+                      <option value="">No publisher</option>
+                      {publishers.map(publisher => (
+                        <option
+                          key={publisher.id}
+                          value={publisher.id}
+                          disabled={publisher.loginId !== null && publisher.loginId !== target.id}
+                        >
+                          {publisher.name}
+                          {publisher.loginId !== null && publisher.loginId !== target.id ? ` (${publisher.loginName})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleSave(target)}
+                      disabled={!isDirty(target) || savingId !== null}
+                      className="p-2 text-purple-600 hover:text-purple-800 hover:bg-purple-50 rounded disabled:text-gray-300"
+                      title="Save"
+                    >
+                      <Save size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsersPage;
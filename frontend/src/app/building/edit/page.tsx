@@ -3,44 +3,32 @@
 import React, { useState, useEffect, Suspense, useCallback } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import BuildingForm from '../../components/BuildingForm';
-
+import BuildingHistory from '../../components/BuildingHistory';
+import type { DoNotCall, Door } from '../../../types';
+import { apiFetch } from '../../../lib/api';
+import { useCongregation } from '../../../hooks/useCongregation';
+import { useRequireSession } from '../../../hooks/useSession';
+import { WORLD_VIEW } from '../../../lib/geo';
+import { can } from '../../../lib/permissions';
+
+// Shape returned by GET /api/door/[id]
 interface BuildingData {
-  id: string;
+  id: number;
   lat: number;
   long: number;
-  // Add all possible coordinate field variations
-  latitude?: number;
-  longitude?: number;
-  lng?: number;
-  Lat?: number;
-  Long?: number;
-  Latitude?: number;
-  Longitude?: number;
-  Lng?: number;
-  // Add nested coordinates object
-  coordinates?: {
-    lat?: number;
-    long?: number;
-    latitude?: number;
-    longitude?: number;
-    lng?: number;
-  };
-  // Other properties
-  language?: string;
-  numberOfDoors?: number;
-  info?: string;
   address?: string;
-  territory_id?: number;
-  congregationId?: number;
-  // Add other possible fields that might come from API
-  _id?: string;
-  buildingId?: string;
+  language?: string | null;
+  doors: { id: number; label: string; language: string | null; doNotCall: DoNotCall | null }[];
+  territory_id?: number | null;
+  congregationId?: number | null;
 }
 
 const BuildingEditContent: React.FC = () => {
   const router = useRouter();
   const searchParams = useSearchParams();
   const buildingId = searchParams.get('id'); // This is the building ID from the URL
+  const { user } = useRequireSession();
+  const { defaultView } = useCongregation(user?.congregationId);
 
   const [position, setPosition] = useState<[number, number] | null>(null);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
@@ -52,11 +40,17 @@ const BuildingEditContent: React.FC = () => {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
 
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<{
+    gps: string;
+    language: string;
+    numberOfDoors: number;
+    doors: Door[];
+    buildingAddress: string;
+  }>({
     gps: '',
     language: 'English',
     numberOfDoors: 1,
-    addressInfo: [''],
+    doors: [{ label: '', language: 'English' }],
     buildingAddress: ''
   });
 
@@ -70,119 +64,50 @@ const BuildingEditContent: React.FC = () => {
       setIsLoading(true);
       setErrorMessage('');
       
-      // Try multiple API endpoints to handle different possible structures
-      const possibleEndpoints = [
-        `https://gp-sapp2-8ycr.vercel.app/api/door/${buildingId}`,
-        `https://gp-sapp2-8ycr.vercel.app/api/buildings/${buildingId}`,
-        `https://gp-sapp2-8ycr.vercel.app/api/door?id=${buildingId}`,
-        `https://gp-sapp2-8ycr.vercel.app/api/buildings?id=${buildingId}`,
-        `https://gp-sapp2-8ycr.vercel.app/api/door`, // Get all buildings and filter
-      ];
-
-      let data: BuildingData | null = null;
-      let lastError: Error | null = null;
-
-      for (const endpoint of possibleEndpoints) {
-        try {
-          const response = await fetch(endpoint, {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-            },
-          });
-
-          if (response.ok) {
-            const responseData = await response.json();
-            
-            // Handle different API response formats:
-            // 1. Array of buildings (e.g., from /api/door which returns all)
-            if (Array.isArray(responseData)) {
-              data = responseData.find((building:BuildingData) => 
-                String(building.id) === String(buildingId) || 
-                String(building._id) === String(buildingId) ||
-                String(building.buildingId) === String(buildingId)
-              );
-            } 
-            // 2. Object with a 'buildings' array
-            else if (responseData.buildings && Array.isArray(responseData.buildings)) {
-              data = responseData.buildings.find((building:BuildingData) => 
-                String(building.id) === String(buildingId) || 
-                String(building._id) === String(buildingId) ||
-                String(building.buildingId) === String(buildingId)
-              );
-            } 
-            // 3. Direct building object
-            else if (responseData.id || responseData._id || responseData.buildingId) {
-              data = responseData;
-            }
-            
-            if (data) break; // Found data, break the loop
-          } else {
-            const errorText = await response.text();
-            lastError = new Error(`API error from ${endpoint}: ${response.status} - ${errorText}`);
-            console.warn(lastError.message);
-          }
-        } catch (error) {
-          lastError = error as Error;
-          console.error(`Fetch error for ${endpoint}:`, error);
-          continue;
-        }
-      }
-
-      if (!data) {
-        throw lastError || new Error(`Building with ID ${buildingId} not found or failed to load building data from any endpoint.`);
+      const response = await apiFetch(`/door/${buildingId}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Building with ID ${buildingId} could not be loaded: ${response.status} - ${errorText}`);
       }
 
-      // Debug log the entire response and extracted building
+      const data: BuildingData = await response.json();
       console.log('Extracted building data:', data);
 
-      // Handle different possible coordinate field names with proper type checking
-      let lat: number | undefined = data.lat || data.latitude || data.Lat || data.Latitude;
-      let long: number | undefined = data.long || data.lng || data.longitude || data.Long || data.Lng || data.Longitude;
-      
-      // Try to find coordinates in nested objects if not found directly
-      if ((lat === null || lat === undefined || isNaN(Number(lat))) && data.coordinates) {
-        lat = data.coordinates.lat || data.coordinates.latitude || data.coordinates.lng;
-      }
-      if ((long === null || long === undefined || isNaN(Number(long))) && data.coordinates) {
-        long = data.coordinates.long || data.coordinates.lng || data.coordinates.longitude;
-      }
-      
       // Convert to numbers and validate
-      const numLat = Number(lat);
-      const numLong = Number(long);
+      const numLat = Number(data.lat);
+      const numLong = Number(data.long);
       
       if (isNaN(numLat) || isNaN(numLong) || numLat < -90 || numLat > 90 || numLong < -180 || numLong > 180) {
-        // Set default coordinates if invalid or not found (e.g., Chennai, India)
-        console.warn('Invalid or missing coordinates, using default location: Chennai, India');
-        const defaultLat = 13.0827; 
-        const defaultLong = 80.2707;
-        setPosition([defaultLat, defaultLong]);
-        setFormData(prev => ({ ...prev, gps: `${defaultLat.toFixed(6)}, ${defaultLong.toFixed(6)}` }));
-        // Still proceed with other data if coordinates are default, but log a warning.
+        // Leave the position unset; the form then opens on the congregation's map centre
+        // so the coordinates can be entered again. The other data still loads.
+        console.warn('Invalid or missing coordinates, using the congregation map centre');
+        setPosition(null);
       } else {
         setPosition([numLat, numLong]);
       }
 
-      const infoArray = data.info ? data.info.split(',').map(item => item.trim()).filter(item => item !== '') : [''];
-      const numberOfDoorsFromAPI = typeof data.numberOfDoors === 'number' ? data.numberOfDoors : (infoArray.length > 0 ? infoArray.length : 1);
+      const defaultLanguage = data.language || 'English';
+      const doors: Door[] = (data.doors || []).map(door => ({
+        id: door.id,
+        label: door.label,
+        language: door.language || defaultLanguage,
+        doNotCall: door.doNotCall,
+      }));
 
       const initialFormData = {
         gps: `${numLat.toFixed(6)}, ${numLong.toFixed(6)}`,
-        language: data.language || 'English',
-        numberOfDoors: numberOfDoorsFromAPI,
-        addressInfo: infoArray.length > 0 ? infoArray : Array(numberOfDoorsFromAPI).fill(''),
+        language: defaultLanguage,
+        numberOfDoors: doors.length > 0 ? doors.length : 1,
+        doors: doors.length > 0 ? doors : [{ label: '', language: defaultLanguage }],
         buildingAddress: data.address || ''
       };
-      
-      // Ensure addressInfo array matches numberOfDoors
-      while (initialFormData.addressInfo.length < initialFormData.numberOfDoors) {
-        initialFormData.addressInfo.push('');
-      }
-      // Trim addressInfo if it's too long
-      initialFormData.addressInfo = initialFormData.addressInfo.slice(0, initialFormData.numberOfDoors);
-
 
       setFormData(initialFormData);
       setOriginalFormData(initialFormData); // Store for change detection
@@ -223,124 +148,6 @@ const BuildingEditContent: React.FC = () => {
     }
   };
 
-  const handleSave = async (): Promise<boolean> => {
-    if (!position || !buildingId) {
-      setErrorMessage('GPS coordinates or Building ID are missing.');
-      setShowErrorMessage(true);
-      return false;
-    }
-  
-    // Validate form data
-    if (!formData.buildingAddress.trim()) {
-      setErrorMessage('Please enter a building address');
-      setShowErrorMessage(true);
-      return false;
-    }
-  
-    // Filter out empty door info and validate
-    const validDoorInfo = formData.addressInfo.filter(info => info.trim());
-    if (validDoorInfo.length === 0 && formData.numberOfDoors > 0) { // If numberOfDoors is > 0, info cannot be empty
-      setErrorMessage('Please fill in at least one door information field if number of doors is greater than zero.');
-      setShowErrorMessage(true);
-      return false;
-    }
-    
-    // Ensure the number of door info fields provided matches numberOfDoors
-    if (validDoorInfo.length !== formData.numberOfDoors && formData.numberOfDoors > 0) {
-      setErrorMessage(`Number of doors (${formData.numberOfDoors}) must match the number of door information fields provided (${validDoorInfo.length}). Please fill all or adjust number of doors.`);
-      setShowErrorMessage(true);
-      return false;
-    }
-  
-    setIsLoading(true);
-    setShowErrorMessage(false);
-    setErrorMessage('');
-  
-    try {
-      // Send complete data structure matching the POST format
-      const apiData = {
-        lat: position[0],
-        long: position[1],
-        language: formData.language,
-        numberOfDoors: formData.numberOfDoors,
-        info: validDoorInfo.join(', '), // Send only valid info
-        address: formData.buildingAddress.trim(),
-        territory_id: originalData?.territory_id || 1, // Use original or default
-        congregationId: originalData?.congregationId || 2898201 // Use original or default
-      };
-  
-      console.log('Sending update data:', apiData); // Debug log
-  
-      // Try multiple update endpoints
-      const possibleEndpoints = [
-        `https://gp-sapp2-8ycr.vercel.app/api/door/${buildingId}`,
-        `https://gp-sapp2-8ycr.vercel.app/api/buildings/${buildingId}`,
-      ];
-  
-      let success = false;
-      let lastError: Error | null = null;
-  
-      for (const endpoint of possibleEndpoints) {
-        try {
-          const response = await fetch(endpoint, {
-            method: 'PUT',
-            headers: {
-              'Content-Type': 'application/json',
-              'Accept': 'application/json',
-            },
-            body: JSON.stringify(apiData),
-          });
-  
-          if (response.ok) {
-            const result = await response.json();
-            console.log('Building updated:', result);
-            success = true;
-            break;
-          } else {
-            // Log the response for debugging
-            const errorText = await response.text();
-            console.error(`Failed to update at ${endpoint}:`, response.status, errorText);
-            lastError = new Error(`Server responded with ${response.status}: ${errorText}`);
-          }
-        } catch (error) {
-          lastError = error as Error;
-          console.error(`Error with ${endpoint}:`, error);
-          continue;
-        }
-      }
-  
-      if (!success) {
-        throw lastError || new Error('Failed to update building on all endpoints');
-      }
-  
-      setShowSuccessMessage(true);
-      setHasUnsavedChanges(false);
-      
-      // Update original form data to reflect saved state
-      setOriginalFormData(formData);
-  
-      setTimeout(() => {
-        setShowSuccessMessage(false);
-        router.back();
-      }, 2000);
-  
-      return true;
-  
-    } catch (error) {
-      console.error('Error updating building:', error);
-      setErrorMessage(`Failed to update building: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      setShowErrorMessage(true);
-      
-      setTimeout(() => {
-        setShowErrorMessage(false);
-      }, 5000);
-      
-      return false;
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleDelete = async () => {
     if (!buildingId) return;
 
@@ -348,10 +155,10 @@ const BuildingEditContent: React.FC = () => {
     setErrorMessage('');
 
     try {
-      // Simply delete the building without saving to deleted buildings
+      // The API moves the building to the recycle bin (see /deleted-buildings)
       const possibleEndpoints = [
-        `https://gp-sapp2-8ycr.vercel.app/api/door/${buildingId}`,
-        `https://gp-sapp2-8ycr.vercel.app/api/buildings/${buildingId}`,
+        `/door/${buildingId}`,
+        `/buildings/${buildingId}`,
       ];
 
       let success = false;
@@ -359,7 +166,7 @@ const BuildingEditContent: React.FC = () => {
 
       for (const endpoint of possibleEndpoints) {
         try {
-          const response = await fetch(endpoint, {
+          const response = await apiFetch(endpoint, {
             method: 'DELETE',
             headers: {
               'Content-Type': 'application/json',
@@ -415,31 +222,37 @@ const BuildingEditContent: React.FC = () => {
 
   const handleFormChange = (field: string, value: string | number, index?: number) => {
     setFormData(prev => {
-      if (field === 'addressInfo' && typeof index === 'number') {
-        const newAddresses = [...prev.addressInfo];
-        newAddresses[index] = value as string;
+      if ((field === 'doors' || field === 'doorLanguage') && typeof index === 'number') {
+        const key = field === 'doors' ? 'label' : 'language';
+        return {
+          ...prev,
+          doors: prev.doors.map((door, i) => i === index ? { ...door, [key]: value as string } : door)
+        };
+      } else if (field === 'language') {
+        // Doors still on the previous building language follow the new one
         return {
           ...prev,
-          addressInfo: newAddresses
+          language: value as string,
+          doors: prev.doors.map(door => door.language === prev.language ? { ...door, language: value as string } : door)
         };
       } else if (field === 'numberOfDoors') {
         const newDoorCount = Math.max(0, Number(value)); // Ensure non-negative
-        const updatedAddresses = [...prev.addressInfo];
+        const updatedDoors = [...prev.doors];
         
         // Add new empty fields if increasing door count
-        while (updatedAddresses.length < newDoorCount) {
-          updatedAddresses.push('');
+        while (updatedDoors.length < newDoorCount) {
+          updatedDoors.push({ label: '', language: prev.language });
         }
         
         // Remove fields if decreasing door count
-        while (updatedAddresses.length > newDoorCount) {
-          updatedAddresses.pop();
+        while (updatedDoors.length > newDoorCount) {
+          updatedDoors.pop();
         }
         
         return {
           ...prev,
           numberOfDoors: newDoorCount,
-          addressInfo: updatedAddresses
+          doors: updatedDoors
         };
       } else { // This will now handle 'gps' as well, ensuring it remains a string.
         return {
@@ -484,7 +297,7 @@ const BuildingEditContent: React.FC = () => {
     );
   }
 
-  if (isLoading && !isDataLoaded) { // Show loading spinner only when initial data is being fetched
+  if (!user || (isLoading && !isDataLoaded)) { // Show loading spinner only when initial data is being fetched
     return (
       <div className="h-screen w-full flex items-center justify-center">
         <div className="text-center">
@@ -509,13 +322,15 @@ const BuildingEditContent: React.FC = () => {
             formData={formData}
             onFormChange={handleFormChange}
             onGpsChange={handleGpsChange}
-            position={[13.0827, 80.2707]} // Default to Chennai or a relevant central point
-            onSave={handleSave}
+            position={(defaultView ?? WORLD_VIEW).center}
             onCancel={handleCancel} 
             isLoading={isLoading}
             onMapMoveEnd={handleMapMoveEnd}
             isEditMode={true}
             buildingId={buildingId ? parseInt(buildingId) : undefined}
+            // Keep the building's territory; languages are those of the user's congregation
+            territoryId={originalData?.territory_id ?? undefined}
+            congregationId={user.congregationId}
           />
       </div>
     );
@@ -565,17 +380,19 @@ const BuildingEditContent: React.FC = () => {
             </svg>
           </button>
           
-          {/* Delete Button */}
-          <button 
-            onClick={() => setShowDeleteConfirm(true)}
-            className="p-2 bg-red-600 rounded hover:bg-red-700 disabled:bg-red-400"
-            disabled={isDeleting}
-            title="Delete building"
-          >
-            <svg className="w-6 h-6" fill="none" stroke="white" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-            </svg>
-          </button>
+          {/* Delete Button, not offered to publishers */}
+          {can(user.role, 'buildings:delete') && (
+            <button 
+              onClick={() => setShowDeleteConfirm(true)}
+              className="p-2 bg-red-600 rounded hover:bg-red-700 disabled:bg-red-400"
+              disabled={isDeleting}
+              title="Delete building"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="white" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
 
@@ -587,19 +404,29 @@ const BuildingEditContent: React.FC = () => {
             onFormChange={handleFormChange}
             onGpsChange={handleGpsChange}
             position={position}
-            onSave={handleSave}
             onCancel={handleCancel} 
             isLoading={isLoading}
             onMapMoveEnd={handleMapMoveEnd}
             isEditMode={true}
             buildingId={buildingId ? parseInt(buildingId) : undefined} // Pass buildingId here
-            // Pass original data for territoryId and congregationId if needed by BuildingForm
-            territoryId={originalData?.territory_id}
-            congregationId={originalData?.congregationId}
+            // Keep the building's territory; languages are those of the user's congregation
+            territoryId={originalData?.territory_id ?? undefined}
+            congregationId={user.congregationId}
           />
         )}
       </div>
 
+      {/* Change history */}
+      {isDataLoaded && (
+        <div className="px-4 pb-4">
+          <BuildingHistory
+            buildingId={parseInt(buildingId)}
+            canRevert={can(user.role, 'buildings:delete')}
+            onReverted={loadBuildingData}
+          />
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-[9999]">
@@ -611,7 +438,7 @@ const BuildingEditContent: React.FC = () => {
               <h3 className="text-lg font-semibold">Delete Building</h3>
             </div>
             <p className="text-gray-600 mb-6">
-              Are you sure you want to delete this building? This action cannot be undone.
+              Are you sure you want to delete this building? It can be restored from Deleted Buildings.
             </p>
             <div className="flex space-x-4">
               <button
@@ -4,28 +4,67 @@ import dynamic from 'next/dynamic';
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import type { Door, Territory } from '../../types';
+import { apiFetch } from '../../lib/api';
+import { languageOptions, useLanguages } from '../../hooks/useLanguages';
+import { useTerritories } from '../../hooks/useTerritories';
 
 const Map = dynamic(() => import('./Map'), { ssr: false });
 
+// How POST /api/door placed a new building that was sent without a territory
+interface TerritoryAssignment {
+  status: 'matched' | 'ambiguous' | 'outside' | 'no-boundaries';
+  territoryId: number | null;
+  candidateIds: number[];
+}
+
+// Line added to the success message about the territory the backend picked
+function assignmentNote(assignment: TerritoryAssignment | null | undefined, territories: Territory[]): string | null {
+  switch (assignment?.status) {
+    case 'matched': {
+      const territory = territories.find(item => item.id === assignment.territoryId);
+      return `Added to territory ${territory?.name || assignment.territoryId}.`;
+    }
+    case 'ambiguous':
+      return 'It lies in more than one territory, so none was chosen. Pick one by editing the building.';
+    case 'outside':
+      return 'It lies outside every territory, so none was chosen.';
+    default:
+      return null;
+  }
+}
+
+// A nearby building with a similar address, from a 409 of POST /api/door
+interface DuplicateBuilding {
+  id: number;
+  lat: number;
+  long: number;
+  address: string | null;
+  // Metres from the new building's position
+  distance: number;
+  doors: { id: number; label: string; language: string | null }[];
+}
+
 interface BuildingFormProps {
   formData: {
     gps: string;
     language: string;
     numberOfDoors: number;
-    addressInfo: string[];
+    doors: Door[];
     buildingAddress: string;
   };
   position: [number, number];
   onFormChange: (field: string, value: string | number, index?: number) => void;
   onGpsChange: (gps: string) => void;
-  onSave: () => Promise<boolean>;
   onCancel: () => void;
   isLoading: boolean;
   onMapMoveEnd?: (lat: number, lng: number) => void;
   isEditMode?: boolean;
   buildingId?: number;
   selectedLanguage?: string;
+  // Congregation of the signed-in user, whose languages are offered
   congregationId?: number;
+  // Territory preselected in the territory picker (the building's own when editing)
   territoryId?: number;
 }
 
@@ -39,8 +78,8 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
   onMapMoveEnd,
   isEditMode = false,
   buildingId,
-  congregationId = 2898201,
-  territoryId = 1,
+  congregationId,
+  territoryId,
 }) => {
   const router = useRouter();
   const [mapCenter, setMapCenter] = useState<[number, number]>(position);
@@ -50,6 +89,20 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
   const [mapZoom, setMapZoom] = useState(17);
   const [isInitialized, setIsInitialized] = useState(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
+  const [successNote, setSuccessNote] = useState<string | null>(null);
+  // Set when the doors went to an existing building instead of a new one
+  const [mergedIntoExisting, setMergedIntoExisting] = useState(false);
+  // Candidates returned when the new building looks like one already logged
+  const [duplicates, setDuplicates] = useState<DuplicateBuilding[] | null>(null);
+  const [isResolvingDuplicate, setIsResolvingDuplicate] = useState(false);
+  const { languages, isLoading: isLoadingLanguages, error: languagesError } = useLanguages(congregationId);
+  const { territories, isLoading: isLoadingTerritories, error: territoriesError } = useTerritories(congregationId !== undefined);
+  const [selectedTerritoryId, setSelectedTerritoryId] = useState<number | null>(territoryId ?? null);
+
+  // Follow the building's territory when the page reloads it, e.g. after a history revert
+  useEffect(() => {
+    setSelectedTerritoryId(territoryId ?? null);
+  }, [territoryId]);
   
   const currentGpsRef = useRef(formData.gps);
   const isEditModeRef = useRef(isEditMode);
@@ -243,12 +296,21 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
       formData.language.trim() !== '' &&
       formData.buildingAddress.trim() !== '' &&
       formData.numberOfDoors > 0 &&
-      formData.addressInfo.length === formData.numberOfDoors &&
-      formData.addressInfo.every(addr => addr.trim() !== '')
+      formData.doors.length === formData.numberOfDoors &&
+      formData.doors.every(door => door.label.trim() !== '' && door.language.trim() !== '')
     );
   }, [formData]);
 
-  const handleSave = useCallback(async () => {
+  // Shows the success pop-up, then opens the home map on the saved building
+  const finishSave = useCallback((lat: number, long: number, query: string) => {
+    setShowSuccessMessage(true);
+    setTimeout(() => {
+      setShowSuccessMessage(false);
+      router.replace(`/?lat=${lat}&lng=${long}&${query}=true&timestamp=${Date.now()}`);
+    }, 3000);
+  }, [router]);
+
+  const saveBuilding = useCallback(async (allowDuplicate: boolean) => {
     if (!isFormValid()) {
       console.warn("Form is not valid. Cannot save.");
       return false;
@@ -262,24 +324,22 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
         lat: lat,
         long: long,
         language: formData.language,
-        numberOfDoors: formData.numberOfDoors,
-        info: formData.addressInfo.join(', '),
+        doors: formData.doors.map(door => ({ ...door, label: door.label.trim() })),
         address: formData.buildingAddress,
-        territory_id: territoryId,
-        congregationId: congregationId
+        // A new building without a territory is placed by its territory boundary
+        territory_id: isEditMode ? selectedTerritoryId : selectedTerritoryId ?? undefined,
+        ...(allowDuplicate && { allowDuplicate })
       };
 
       // Use the correct endpoint based on edit mode
-      const url = isEditMode && buildingId
-      ? `https://gp-sapp2-8ycr.vercel.app/api/door/${buildingId}`
-      : 'https://gp-sapp2-8ycr.vercel.app/api/door';
+      const url = isEditMode && buildingId ? `/door/${buildingId}` : '/door';
 
       const method = isEditMode && buildingId ? 'PUT' : 'POST';
 
       console.log(`${method} request to: ${url}`);
       console.log('Payload:', payload);
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method: method,
         headers: {
           'Content-Type': 'application/json',
@@ -287,6 +347,14 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
         body: JSON.stringify(payload),
       });
 
+      if (response.status === 409 && !isEditMode) {
+        const conflict: { duplicates?: DuplicateBuilding[] } = await response.json().catch(() => ({}));
+        if (conflict.duplicates?.length) {
+          setDuplicates(conflict.duplicates);
+          return false;
+        }
+      }
+
       if (!response.ok) {
         const errorText = await response.text();
         console.error('Backend error:', errorText);
@@ -296,11 +364,9 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
       const result = await response.json();
       console.log('Backend response:', result);
 
-      setShowSuccessMessage(true);
-      setTimeout(() => {
-        setShowSuccessMessage(false);
-        router.replace(`/?lat=${lat}&lng=${long}&${isEditMode ? 'updated' : 'newBuilding'}=true&timestamp=${Date.now()}`);
-      }, 3000);
+      setDuplicates(null);
+      setSuccessNote(assignmentNote(result.territoryAssignment, territories));
+      finishSave(lat, long, isEditMode ? 'updated' : 'newBuilding');
 
       return true;
     } catch (error) {
@@ -308,7 +374,55 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
       alert(`Error ${isEditMode ? 'updating' : 'creating'} building: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return false;
     }
-  }, [formData, territoryId, congregationId, router, isFormValid, isEditMode, buildingId]);
+  }, [formData, selectedTerritoryId, territories, finishSave, isFormValid, isEditMode, buildingId]);
+
+  const handleSave = useCallback(() => saveBuilding(false), [saveBuilding]);
+
+  const handleCreateAnyway = useCallback(async () => {
+    setIsResolvingDuplicate(true);
+    await saveBuilding(true);
+    setIsResolvingDuplicate(false);
+  }, [saveBuilding]);
+
+  // Adds the form's doors to an existing building, skipping labels it already has
+  const handleAddToExisting = useCallback(async (existing: DuplicateBuilding) => {
+    const knownLabels = new Set(existing.doors.map(door => door.label.trim().toLowerCase()));
+    const newDoors = formData.doors.filter(door => !knownLabels.has(door.label.trim().toLowerCase()));
+
+    setIsResolvingDuplicate(true);
+    try {
+      for (const door of newDoors) {
+        const response = await apiFetch(`/building/${existing.id}/doors`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            label: door.label.trim(),
+            language: door.language,
+            ...(door.languageStatus && { languageStatus: door.languageStatus }),
+          }),
+        });
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}));
+          throw new Error(result.error || `Server responded with ${response.status}`);
+        }
+      }
+
+      const skipped = formData.doors.length - newDoors.length;
+      setDuplicates(null);
+      setMergedIntoExisting(true);
+      setSuccessNote(
+        `${newDoors.length} door${newDoors.length === 1 ? '' : 's'} added to ${existing.address || 'the existing building'}.` +
+        (skipped > 0 ? ` ${skipped} ${skipped === 1 ? 'was' : 'were'} already there.` : '')
+      );
+      // The existing building may be older than the home map's default range
+      finishSave(existing.lat, existing.long, 'showNew');
+    } catch (error) {
+      console.error('Error adding doors to existing building:', error);
+      alert(`Error adding doors to existing building: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsResolvingDuplicate(false);
+    }
+  }, [formData.doors, finishSave]);
 
   return (
     <div className="space-y-4">
@@ -323,8 +437,11 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
             </svg>
             <h3 className="text-2xl font-bold mb-2">Success!</h3>
             <p className="text-lg">
-              {isEditMode ? 'Building updated successfully!' : 'Building created successfully!'}
+              {isEditMode
+                ? 'Building updated successfully!'
+                : mergedIntoExisting ? 'Doors added successfully!' : 'Building created successfully!'}
             </p>
+            {successNote && <p className="text-sm mt-2">{successNote}</p>}
           </div>
         </div>
       )}
@@ -423,12 +540,10 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
             className="w-full p-2 border rounded-md appearance-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
             required
           >
-            <option value="">Select a language</option>
-            <option value="English">English</option>
-            <option value="Tamil">Tamil</option>
-            <option value="Hindi">Hindi</option>
-            <option value="Telugu">Telugu</option>
-            <option value="Malayalam">Malayalam</option>
+            <option value="">{isLoadingLanguages ? 'Loading languages...' : 'Select a language'}</option>
+            {languageOptions(languages, formData.language).map(language => (
+              <option key={language} value={language}>{language}</option>
+            ))}
           </select>
           <div className="absolute inset-y-0 right-0 flex items-center px-2 pointer-events-none">
             <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -436,6 +551,9 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
             </svg>
           </div>
         </div>
+        {languagesError && (
+          <p className="text-xs text-red-600 mt-1">Could not load languages: {languagesError}</p>
+        )}
       </div>
 
       {/* Building Address */}
@@ -451,6 +569,35 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
         />
       </div>
 
+      {/* Territory Dropdown */}
+      <div>
+        <label className="block text-sm font-medium mb-1">Territory</label>
+        <div className="relative">
+          <select
+            value={selectedTerritoryId ?? ''}
+            onChange={(e) => setSelectedTerritoryId(e.target.value ? Number(e.target.value) : null)}
+            className="w-full p-2 border rounded-md appearance-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">
+              {isLoadingTerritories ? 'Loading territories...' : isEditMode ? 'No territory' : 'Automatic, from the territory boundaries'}
+            </option>
+            {territories.map(territory => (
+              <option key={territory.id} value={territory.id}>
+                {territory.name || `Territory ${territory.id}`}
+              </option>
+            ))}
+          </select>
+          <div className="absolute inset-y-0 right-0 flex items-center px-2 pointer-events-none">
+            <svg className="w-4 h-4 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </div>
+        </div>
+        {territoriesError && (
+          <p className="text-xs text-red-600 mt-1">Could not load territories: {territoriesError}</p>
+        )}
+      </div>
+
       {/* Number of Doors */}
       <div>
         <label className="block text-sm font-medium mb-1">Number of Doors*</label>
@@ -483,16 +630,35 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
       {formData.numberOfDoors > 0 && (
         <div>
           <label className="block text-sm font-medium mb-1">Door Details*</label>
-          {formData.addressInfo.map((address, index) => (
-            <input
-              key={index}
-              type="text"
-              value={address}
-              onChange={(e) => onFormChange('addressInfo', e.target.value, index)}
-              className="w-full p-2 mb-2 border rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              placeholder={`Address for door ${index + 1}`}
-              required
-            />
+          {formData.doors.map((door, index) => (
+            <div key={door.id ?? `new-${index}`} className="flex items-center mb-2 space-x-2">
+              <input
+                type="text"
+                value={door.label}
+                onChange={(e) => onFormChange('doors', e.target.value, index)}
+                className="flex-1 min-w-0 p-2 border rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                placeholder={`Address for door ${index + 1}`}
+                required
+              />
+              <select
+                value={door.language}
+                onChange={(e) => onFormChange('doorLanguage', e.target.value, index)}
+                className="p-2 border rounded-md focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                aria-label={`Language for door ${index + 1}`}
+              >
+                {languageOptions(languages, door.language).map(language => (
+                  <option key={language} value={language}>{language}</option>
+                ))}
+              </select>
+              {door.doNotCall && (
+                <span
+                  className="px-2 py-1 text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded"
+                  title={door.doNotCall.reason || 'Do not call'}
+                >
+                  Do not call
+                </span>
+              )}
+            </div>
           ))}
         </div>
       )}
@@ -504,6 +670,49 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
         </div>
       )}
 
+      {/* Possible duplicates of the new building */}
+      {duplicates && (
+        <div className="p-3 rounded-md border border-amber-300 bg-amber-50 space-y-3">
+          <p className="text-sm font-medium text-amber-800">
+            This building may already be on the map. Add the doors to it, or create a new building anyway.
+          </p>
+          {duplicates.map(existing => (
+            <div key={existing.id} className="flex items-center justify-between space-x-2 p-2 bg-white rounded border border-amber-200">
+              <div className="min-w-0 text-sm">
+                <div className="font-medium truncate">{existing.address || 'No address'}</div>
+                <div className="text-gray-500 truncate">
+                  {existing.distance} m away · {existing.doors.length} door{existing.doors.length === 1 ? '' : 's'}
+                  {existing.doors.length > 0 && `: ${existing.doors.map(door => door.label).join(', ')}`}
+                </div>
+              </div>
+              <button
+                onClick={() => handleAddToExisting(existing)}
+                disabled={isResolvingDuplicate}
+                className="flex-shrink-0 px-3 py-1 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 transition-colors"
+              >
+                Add doors here
+              </button>
+            </div>
+          ))}
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setDuplicates(null)}
+              disabled={isResolvingDuplicate}
+              className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleCreateAnyway}
+              disabled={isResolvingDuplicate}
+              className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
+            >
+              Create anyway
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex justify-end mt-6 space-x-2">
         <button
@@ -516,7 +725,7 @@ const BuildingForm: React.FC<BuildingFormProps> = ({
         <button
           onClick={handleSave}
           className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 transition-colors"
-          disabled={isLoading || !isFormValid()}
+          disabled={isLoading || isResolvingDuplicate || !isFormValid()}
         >
           {isLoading ? (
             <span className="flex items-center">
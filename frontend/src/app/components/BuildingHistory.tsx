@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+
+// One entry of GET /api/building/[id]/history
+interface HistoryEntry {
+  id: number;
+  entity: 'building' | 'door';
+  entityId: number;
+  action: 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'revert';
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  actor: string;
+  // Current name of the publisher linked to the actor's login, if any
+  publisherName: string | null;
+  createdAt: string;
+}
+
+interface BuildingHistoryProps {
+  buildingId: number;
+  // Whether the user's role may revert (a revert can delete doors)
+  canRevert?: boolean;
+  onReverted?: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  lat: 'Latitude',
+  long: 'Longitude',
+  address: 'Address',
+  territory_id: 'Territory',
+  label: 'Label',
+  language: 'Language',
+  languageStatus: 'Language status',
+  doNotCall: 'Do not call',
+};
+
+const ACTION_LABELS: Record<HistoryEntry['action'], string> = {
+  create: 'added',
+  update: 'changed',
+  delete: 'deleted',
+  restore: 'restored',
+  purge: 'permanently deleted',
+  revert: 'reverted',
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === ''
+    ? '—'
+    : typeof value === 'boolean'
+    ? (value ? 'Yes' : 'No')
+    : String(value);
+
+const describeEntry = (entry: HistoryEntry) => {
+  if (entry.entity === 'building') {
+    return `Building ${ACTION_LABELS[entry.action]}`;
+  }
+  const snapshot = entry.after || entry.before;
+  const label = snapshot?.label ? `"${snapshot.label}"` : `#${entry.entityId}`;
+  return `Door ${label} ${ACTION_LABELS[entry.action]}`;
+};
+
+const BuildingHistory: React.FC<BuildingHistoryProps> = ({ buildingId, canRevert = false, onReverted }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await apiFetch(`/building/${buildingId}/history`);
+      if (!res.ok) {
+        throw new Error(`Failed to load history: ${res.status} ${res.statusText}`);
+      }
+      const data: { entries: HistoryEntry[] } = await res.json();
+      setEntries(data.entries);
+    } catch (error) {
+      console.error('[BuildingHistory] Error loading history:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildingId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const revertTo = async (entry: HistoryEntry) => {
+    if (!confirm(`Revert this building to how it was on ${new Date(entry.createdAt).toLocaleString()}?`)) return;
+
+    setRevertingId(entry.id);
+    setErrorMessage('');
+    try {
+      const res = await apiFetch(`/building/${buildingId}/history/${entry.id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || `Revert failed with status ${res.status}`);
+      }
+      await loadHistory();
+      onReverted?.();
+    } catch (error) {
+      console.error('[BuildingHistory] Error reverting:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex items-center space-x-2 p-3 border-b bg-gray-50">
+        <History size={16} className="text-purple-700" />
+        <h2 className="text-sm font-semibold">History</h2>
+      </div>
+
+      {errorMessage && (
+        <div className="m-3 p-2 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+          {errorMessage}
+        </div>
+      )}
+
+      {isLoading && entries.length === 0 ? (
+        <p className="p-3 text-sm text-gray-500">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="p-3 text-sm text-gray-500">No recorded changes yet.</p>
+      ) : (
+        <ul className="divide-y max-h-96 overflow-y-auto">
+          {entries.map((entry, index) => (
+            <li key={entry.id} className="p-3 text-sm">
+              <div className="flex items-start justify-between space-x-2">
+                <div className="min-w-0">
+                  <div className="font-medium">{describeEntry(entry)}</div>
+                  <div className="text-xs text-gray-500">
+                    {entry.publisherName || entry.actor} · {new Date(entry.createdAt).toLocaleString()}
+                  </div>
+                  {entry.changes && (
+                    <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                      {Object.entries(entry.changes)
+                        .filter(([field]) => field in FIELD_LABELS)
+                        .map(([field, change]) => (
+                          <li key={field}>
+                            {FIELD_LABELS[field]}: {formatValue(change.from)} → {formatValue(change.to)}
+                          </li>
+                        ))}
+                    </ul>
+                  )}
+                </div>
+                {/* The newest entry is the current version, so there is nothing to revert to */}
+                {canRevert && index > 0 && (
+                  <button
+                    onClick={() => revertTo(entry)}
+                    disabled={revertingId !== null}
+                    className="flex-shrink-0 flex items-center space-x-1 px-2 py-1 text-xs text-purple-700 border border-purple-200 rounded hover:bg-purple-50 disabled:text-gray-400"
+                    title="Revert the building and its doors to the state right after this change"
+                  >
+                    <RotateCcw size={12} />
+                    <span>{revertingId === entry.id ? 'Reverting...' : 'Revert to this version'}</span>
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BuildingHistory;
@@ -5,25 +5,47 @@ import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { useSearchParams } from 'next/navigation';
 import 'leaflet/dist/leaflet.css';
-import { Plus, Save, X, Trash2, MapPin, RefreshCw } from 'lucide-react';
+import { Plus, Save, X, Trash2, MapPin, RefreshCw, Crosshair, Hexagon, Languages, Layers, LogOut, BookUser, Settings, Users, ClipboardCheck, Ban, CalendarClock } from 'lucide-react';
+import type { MapViewport } from '../components/Map';
+import DoNotCallPanel from './DoNotCallPanel';
+import DoorVisitLog from './DoorVisitLog';
+import type { Door, DoorVisit, LanguageStatus, VisitOutcome } from '../../types';
+import { apiFetch } from '../../lib/api';
+import { useCongregation } from '../../hooks/useCongregation';
+import { languageOptions, useLanguages } from '../../hooks/useLanguages';
+import { useRequireSession } from '../../hooks/useSession';
+import { useTerritories } from '../../hooks/useTerritories';
+import { LANGUAGE_STATUSES, LANGUAGE_STATUS_LABELS } from '../../lib/doors';
+import { can } from '../../lib/permissions';
 
 const MapWithNoSSR = dynamic(() => import('../components/Map'), { ssr: false });
 
+type TimeRange = '24h' | '7d' | '30d' | 'all';
+
+// Options for the bottom-bar range selector; `ms` is the window length sent as `since`
+const TIME_RANGES: { value: TimeRange; label: string; ms?: number }[] = [
+  { value: '24h', label: '24hr', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { value: '30d', label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+  { value: 'all', label: 'All time' },
+];
+
 // Unified Pin interface that will be used throughout the application
 interface Pin {
   id: number;
   position: [number, number];
   title: string;
-  doors?: string[];
+  doors?: Door[];
   numberOfDoors?: number;
   language?: string;
-  info?: string;
   lat?: number;
   long?: number;
   address?: string;
   pinImage?: string; // Add pinImage to Pin interface
   pinColor?: number; // Add pinColor to Pin interface
+  pinColorHex?: string | null;
   congregationId?: number;
+  doNotCallCount?: number;
 }
 
 // Building interface for API responses - ENSURE these match your backend API EXACTLY
@@ -33,21 +55,80 @@ interface Building {
   long: number;
   address: string;
   numberOfDoors?: string; // Assuming it comes as a string, parse if needed
-  language?: string;
-  info?: string;
+  language?: string | null; // null when no door has a language
+  doors?: Door[];
   congregationId?: number;
   pinColor?: number; // <<-- IMPORTANT: This must come from your backend
   pinImage?: string; // <<-- IMPORTANT: This must come from your backend
+  pinColorHex?: string | null;
+  doNotCallCount?: number;
+}
+
+// One page of GET /api/door; pass nextCursor back as ?cursor= until it is null
+interface BuildingPage {
+  buildings: Building[];
+  total: number;
+  nextCursor: number | null;
 }
 
+const PAGE_SIZE = 200;
+
+// Visit outcomes that set the door's language status (see the visits API)
+const VISIT_LANGUAGE_STATUS: Partial<Record<VisitOutcome, LanguageStatus>> = {
+  language_confirmed: 'confirmed',
+  wrong_language: 'not_this_language',
+};
+
+// A door whose language changed, or whose status was picked here, is no longer
+// attributed to whoever confirmed it; the API records the new confirmation on save
+const UNCONFIRMED: Partial<Door> = {
+  languageStatus: 'suspected',
+  languageConfirmedBy: null,
+  languageConfirmedAt: null,
+};
+
+// A ?lat=&lng=&showNew=true link (from the return visits page) points at a building that
+// may be older than the default range, so the map starts with every building in a small
+// box around it; null for any other URL
+const linkedBuildingBbox = (searchParams: Pick<URLSearchParams, 'get'>): string | null => {
+  if (searchParams.get('showNew') !== 'true') return null;
+  const lat = parseFloat(searchParams.get('lat') || '');
+  const lng = parseFloat(searchParams.get('lng') || '');
+  if (isNaN(lat) || isNaN(lng)) return null;
+  const margin = 0.002;
+  return [lng - margin, lat - margin, lng + margin, lat + margin].map(value => value.toFixed(6)).join(',');
+};
+
+const buildingToPin = (building: Building): Pin => ({
+  id: building.id,
+  position: [building.lat, building.long] as [number, number],
+  title: building.address || 'No address',
+  doors: (building.doors || []).map(({ id, label, language, languageStatus, languageConfirmedBy, languageConfirmedAt, doNotCall }) => ({
+    id,
+    label,
+    language: language || building.language || 'English',
+    languageStatus,
+    languageConfirmedBy,
+    languageConfirmedAt,
+    doNotCall,
+  })),
+  numberOfDoors: building.numberOfDoors ? parseInt(building.numberOfDoors) : undefined,
+  language: building.language || 'English',
+  pinColor: building.pinColor,
+  pinImage: building.pinImage,
+  pinColorHex: building.pinColorHex,
+  congregationId: building.congregationId,
+  doNotCallCount: building.doNotCallCount,
+});
+
 // Editing interface
 interface EditingBuilding {
   id: number;
   lat: number;
   long: number;
   address: string;
-  doors: string[];
-  language: string;
+  doors: Door[];
+  language: string; // Default language for newly added doors
   // If you want to edit pinColor/pinImage, you'd add them here too
 }
 
@@ -60,12 +141,33 @@ export default function HomePage() {
   const [isEditing, setIsEditing] = useState(false);
   const [editingBuilding, setEditingBuilding] = useState<EditingBuilding | null>(null);
   const [newDoor, setNewDoor] = useState('');
-  const [mapCenter, setMapCenter] = useState<[number, number]>([12.8923, 80.1889]);
-  const [mapZoom, setMapZoom] = useState(12);
+  // Saved door whose visit log or do-not-call panel is open in the edit modal
+  const [doorPanel, setDoorPanel] = useState<{ doorId: number; panel: 'visits' | 'do-not-call' } | null>(null);
+  // null until the map is moved somewhere; it opens on the congregation's map centre
+  const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
+  const [mapZoom, setMapZoom] = useState<number | null>(null);
   const [showNewBuildingNotification, setShowNewBuildingNotification] = useState(false);
   const [highlightPinId, setHighlightPinId] = useState<number | undefined>(undefined);
   const [mapKey, setMapKey] = useState(0);
-  const [shouldAutoFit, setShouldAutoFit] = useState(true);
+  const [shouldAutoFit, setShouldAutoFit] = useState(() => linkedBuildingBbox(searchParams) === null);
+  const [timeRange, setTimeRange] = useState<TimeRange>(() => (linkedBuildingBbox(searchParams) ? 'all' : '24h'));
+  // Only buildings with a door whose language has this status; '' shows every building
+  const [languageStatusFilter, setLanguageStatusFilter] = useState<LanguageStatus | ''>('');
+  const [limitToViewport, setLimitToViewport] = useState(() => linkedBuildingBbox(searchParams) !== null);
+  const [showTerritories, setShowTerritories] = useState(false);
+  const [viewportBbox, setViewportBbox] = useState<string | null>(() => linkedBuildingBbox(searchParams));
+  const [totalBuildings, setTotalBuildings] = useState(0);
+  const [isLoadingBuildings, setIsLoadingBuildings] = useState(false);
+  const fetchGenerationRef = useRef(0);
+  // Buildings and languages are those of the signed-in user's congregation
+  const { user, logout } = useRequireSession();
+  const { languages } = useLanguages(user?.congregationId);
+  const { territories } = useTerritories(!!user);
+  const { defaultView } = useCongregation(user?.congregationId);
+
+  // Latest map viewport, kept in a ref so panning does not re-render the map
+  const viewportRef = useRef<MapViewport | null>(null);
+  const bboxParam = limitToViewport ? viewportBbox : null;
   
   // Ref to track if we've already processed the URL parameters
   const hasProcessedUrlParams = useRef(false);
@@ -81,12 +183,12 @@ export default function HomePage() {
     const showNew = searchParams.get('showNew') === 'true';
 
     // Check for new building parameters
-    if ((lat && lng && isNewBuilding) || (centerLat && centerLng && showNew)) {
+    if ((lat && lng && (isNewBuilding || showNew)) || (centerLat && centerLng && showNew)) {
       const targetLat = parseFloat(lat || centerLat || '0');
       const targetLng = parseFloat(lng || centerLng || '0');
       
       if (!isNaN(targetLat) && !isNaN(targetLng)) {
-        console.log('Centering map on new building:', targetLat, targetLng);
+        console.log('Centering map on building:', targetLat, targetLng);
         
         // Disable auto-fit and set specific center/zoom
         setShouldAutoFit(false);
@@ -94,7 +196,7 @@ export default function HomePage() {
         setMapZoom(18); // Higher zoom for better focus on the new building
         
         // Show notification for new building
-        if (isNewBuilding || showNew) {
+        if (isNewBuilding || centerLat) {
           setShowNewBuildingNotification(true);
           setTimeout(() => {
             setShowNewBuildingNotification(false);
@@ -125,44 +227,81 @@ export default function HomePage() {
   }, [searchParams]);
 
   const fetchRecentBuildings = useCallback(async () => {
+    // Each call supersedes any paging loop still running for an older range or viewport
+    const generation = ++fetchGenerationRef.current;
+
     try {
       console.log("[ClientHomePage] Attempting to fetch buildings from API...");
-      const res = await fetch(`https://gp-sapp2-8ycr.vercel.app/api/door`);
-      
-      if (!res.ok) {
-        const errorText = await res.text();
-        console.error(`[ClientHomePage] API fetch failed with status: ${res.status}, response: ${errorText}`);
-        throw new Error(`Failed to fetch buildings: ${res.statusText}`);
+      const params = new URLSearchParams();
+      const range = TIME_RANGES.find(option => option.value === timeRange);
+      params.set('since', range?.ms ? new Date(Date.now() - range.ms).toISOString() : 'all');
+      params.set('limit', String(PAGE_SIZE));
+      if (bboxParam) {
+        params.set('bbox', bboxParam);
       }
-      
-      const data: Building[] = await res.json();
-      console.log("[ClientHomePage] Raw backend data received:", JSON.stringify(data, null, 2));
-
-      if (data && Array.isArray(data)) {
-        const pins: Pin[] = data.map((building: Building) => ({
-          id: building.id,
-          position: [building.lat, building.long] as [number, number],
-          title: building.address || 'No address',
-          doors: building.info ? building.info.split(', ').filter(Boolean) : [],
-          numberOfDoors: building.numberOfDoors ? parseInt(building.numberOfDoors) : undefined,
-          language: building.language || 'English',
-          info: building.info,
-          pinColor: building.pinColor, 
-          pinImage: building.pinImage, 
-          congregationId: building.congregationId,
-        }));
-        setRecentPins(pins);
-        
-        // Process URL parameters after buildings are loaded
-        processUrlParameters(pins);
+      if (languageStatusFilter) {
+        params.set('languageStatus', languageStatusFilter);
       }
+
+      let pins: Pin[] = [];
+      let cursor: number | null = null;
+      setIsLoadingBuildings(true);
+
+      do {
+        if (cursor !== null) {
+          params.set('cursor', String(cursor));
+        }
+        const res = await apiFetch(`/door?${params.toString()}`);
+
+        if (!res.ok) {
+          const errorText = await res.text();
+          console.error(`[ClientHomePage] API fetch failed with status: ${res.status}, response: ${errorText}`);
+          throw new Error(`Failed to fetch buildings: ${res.statusText}`);
+        }
+
+        const page: BuildingPage = await res.json();
+        if (generation !== fetchGenerationRef.current) return;
+
+        // Show each page as soon as it arrives instead of waiting for the whole listing
+        pins = [...pins, ...page.buildings.map(buildingToPin)];
+        setRecentPins(pins);
+        setTotalBuildings(page.total);
+        cursor = page.nextCursor;
+      } while (cursor !== null);
+
+      console.log(`[ClientHomePage] Loaded ${pins.length} buildings`);
+
+      // Process URL parameters after buildings are loaded
+      processUrlParameters(pins);
     } catch (err: unknown) {
+      if (generation !== fetchGenerationRef.current) return;
       console.error("[ClientHomePage] Error fetching buildings (network/parse error):", err);
       // You might want to display an error message to the user here
       const errorMessage = err instanceof Error ? err.message : 'Network error';
       alert(`Error loading buildings: ${errorMessage}`);
+    } finally {
+      if (generation === fetchGenerationRef.current) {
+        setIsLoadingBuildings(false);
+      }
     }
-  }, [processUrlParameters]);
+  }, [processUrlParameters, timeRange, bboxParam, languageStatusFilter]);
+
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    viewportRef.current = viewport;
+    setViewportBbox(viewport.bbox.map(value => value.toFixed(6)).join(','));
+  }, []);
+
+  const toggleViewportFilter = () => {
+    const viewport = viewportRef.current;
+    if (!limitToViewport && viewport) {
+      // Keep the map where the user left it instead of snapping back when it remounts
+      setMapCenter(viewport.center);
+      setMapZoom(viewport.zoom);
+    }
+    // Auto-fit would move the map after every fetch, which changes the viewport again
+    setShouldAutoFit(limitToViewport);
+    setLimitToViewport(prev => !prev);
+  };
 
   // Type the callback explicitly to match the Pin interface
   const handlePinClick = useCallback((pin: Pin) => {
@@ -175,10 +314,11 @@ export default function HomePage() {
       lat: pin.position[0],
       long: pin.position[1],
       address: pin.address || '',
-      doors: pin.doors || (pin.info ? pin.info.split(', ').filter(Boolean) : []),
+      doors: pin.doors || [],
       language: pin.language || 'English',
     });
     setNewDoor(''); // Clear new door input
+    setDoorPanel(null);
   }, []);
 
 
@@ -188,6 +328,7 @@ export default function HomePage() {
     setEditingBuilding(null);
     setSelectedPin(null);
     setNewDoor('');
+    setDoorPanel(null);
   };
 
   const saveChanges = async () => {
@@ -196,15 +337,13 @@ export default function HomePage() {
       return;
     }
 
-    const putUrl = `https://gp-sapp2-8ycr.vercel.app/api/door/${editingBuilding.id}`;
+    const putUrl = `/door/${editingBuilding.id}`;
     const putBody = JSON.stringify({
       lat: editingBuilding.lat,
       long: editingBuilding.long,
       address: editingBuilding.address,
-      info: editingBuilding.doors.join(', '),
-      numberOfDoors: editingBuilding.doors.length,
+      doors: editingBuilding.doors.filter(door => door.label.trim() !== ''),
       language: editingBuilding.language,
-      congregationId: selectedPin?.congregationId || 2898201, // Ensure it's passed for pin logic
     });
     
 
@@ -212,7 +351,7 @@ export default function HomePage() {
     console.log("[ClientHomePage] PUT request body:", putBody);
 
     try {
-      const response = await fetch(putUrl, {
+      const response = await apiFetch(putUrl, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -220,12 +359,17 @@ export default function HomePage() {
         body: putBody,
       });
 
+      if (response.status === 401) {
+        alert('Please sign in to edit buildings.');
+        return;
+      }
+
       if (response.ok) {
         console.log(`[ClientHomePage] PUT request successful for ID: ${editingBuilding.id}`);
         // Re-fetch the specific building to get its updated pinImage/pinColor
         // This is important because the backend might recalculate or store this.
         console.log(`[ClientHomePage] Re-fetching building with ID: ${editingBuilding.id} after save.`);
-        const updatedBuildingRes = await fetch(`https://gp-sapp2-8ycr.vercel.app/api/door/${editingBuilding.id}`);
+        const updatedBuildingRes = await apiFetch(`/door/${editingBuilding.id}`);
         
         if (!updatedBuildingRes.ok) {
           const errorText = await updatedBuildingRes.text();
@@ -236,18 +380,7 @@ export default function HomePage() {
         const updatedBuildingData: Building = await updatedBuildingRes.json();
         console.log("[ClientHomePage] Re-fetched updated building data:", JSON.stringify(updatedBuildingData, null, 2));
 
-        const updatedPin: Pin = {
-          id: updatedBuildingData.id,
-          position: [updatedBuildingData.lat, updatedBuildingData.long] as [number, number],
-          title: updatedBuildingData.address || 'No address',
-          doors: updatedBuildingData.info ? updatedBuildingData.info.split(', ').filter(Boolean) : [],
-          numberOfDoors: updatedBuildingData.numberOfDoors ? parseInt(updatedBuildingData.numberOfDoors) : undefined,
-          language: updatedBuildingData.language || 'English',
-          info: updatedBuildingData.info,
-          pinColor: updatedBuildingData.pinColor, 
-          pinImage: updatedBuildingData.pinImage, 
-          congregationId: updatedBuildingData.congregationId,
-        };
+        const updatedPin = buildingToPin(updatedBuildingData);
 
         setShouldAutoFit(false);
         setRecentPins(prevPins => 
@@ -258,7 +391,7 @@ export default function HomePage() {
         
         setTimeout(() => {
           setMapCenter([editingBuilding.lat, editingBuilding.long]);
-          setMapZoom(Math.max(mapZoom, 16)); 
+          setMapZoom(Math.max(mapZoom ?? 0, 16)); 
           setHighlightPinId(editingBuilding.id);
           setSelectedPin(updatedPin);
           setMapKey(prev => prev + 1); 
@@ -294,7 +427,7 @@ export default function HomePage() {
     if (newDoor.trim() && editingBuilding) {
       setEditingBuilding(prev => prev ? {
         ...prev,
-        doors: [...prev.doors, newDoor.trim()]
+        doors: [...prev.doors, { label: newDoor.trim(), language: prev.language }]
       } : null);
       setNewDoor('');
     }
@@ -309,15 +442,54 @@ export default function HomePage() {
     }
   };
 
-  const updateDoor = (index: number, newValue: string) => {
+  const updateDoor = (index: number, changes: Partial<Door>) => {
     if (editingBuilding) {
       setEditingBuilding(prev => prev ? {
         ...prev,
-        doors: prev.doors.map((door, i) => i === index ? newValue : door)
+        doors: prev.doors.map((door, i) => i === index ? { ...door, ...changes } : door)
       } : null);
     }
   };
 
+  // Applies a do-not-call change made in the edit modal to the door and to its pin,
+  // which the API has already saved
+  const setDoorDoNotCall = (index: number, doNotCall: Door['doNotCall']) => {
+    if (!editingBuilding) return;
+    const doors = editingBuilding.doors.map((door, i) => i === index ? { ...door, doNotCall } : door);
+    const doNotCallCount = doors.filter(door => door.doNotCall).length;
+    setEditingBuilding(prev => prev ? { ...prev, doors } : null);
+    setRecentPins(prev => prev.map(pin =>
+      pin.id === editingBuilding.id
+        ? { ...pin, doors: pin.doors?.map(door => door.id === doors[index].id ? { ...door, doNotCall } : door), doNotCallCount }
+        : pin
+    ));
+  };
+
+  // Mirrors what the API did to the door when the visit was logged, so saving the
+  // building afterwards does not undo it: language outcomes set the language status
+  // and a do_not_call visit marks the door, unless it already was
+  const handleVisitLogged = (index: number, visit: DoorVisit) => {
+    const languageStatus = VISIT_LANGUAGE_STATUS[visit.outcome];
+    if (languageStatus && editingBuilding?.doors[index]?.languageStatus !== languageStatus) {
+      updateDoor(index, {
+        languageStatus,
+        languageConfirmedBy: visit.recordedBy,
+        languageConfirmedAt: new Date().toISOString(),
+      });
+    }
+    if (visit.outcome !== 'do_not_call' || editingBuilding?.doors[index]?.doNotCall) return;
+    setDoorDoNotCall(index, {
+      reason: visit.notes,
+      markedAt: visit.visitedAt,
+      markedBy: visit.recordedBy,
+      reviewAfter: null,
+      reviewDue: false,
+    });
+  };
+
+  const toggleDoorPanel = (doorId: number, panel: 'visits' | 'do-not-call') =>
+    setDoorPanel(prev => prev?.doorId === doorId && prev.panel === panel ? null : { doorId, panel });
+
   const handleRefresh = () => {
     console.log("[ClientHomePage] Refreshing buildings...");
     setHighlightPinId(undefined);
@@ -340,9 +512,11 @@ export default function HomePage() {
         }
       );
     }
+  }, []);
 
-    fetchRecentBuildings();
-  }, [fetchRecentBuildings]);
+  useEffect(() => {
+    if (user) fetchRecentBuildings();
+  }, [user, fetchRecentBuildings]);
 
   return (
     <main className="relative w-screen min-h-[100svh] overflow-hidden">
@@ -352,7 +526,9 @@ export default function HomePage() {
           {/* Left side - Buildings count */}
           <div className="flex items-center">
             <span className="text-white text-sm font-medium">
-              {recentPins.length} Buildings
+              {isLoadingBuildings && recentPins.length < totalBuildings
+                ? `${recentPins.length} of ${totalBuildings} Buildings`
+                : `${recentPins.length} Buildings`}
             </span>
           </div>
           
@@ -361,8 +537,89 @@ export default function HomePage() {
             <div className="text-x0 font-bold text-white text-shadow">WELCOME TO GPS-V2R</div>
           </div>
           
-          {/* Right side - Empty space for balance */}
-          <div className="w-[60px]"></div>
+          {/* Right side - Settings */}
+          <div className="min-w-[60px] flex justify-end space-x-1">
+            {user && (
+              <Link
+                href="/territories"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Territories"
+                title="Territories"
+              >
+                <Layers className="w-5 h-5" />
+              </Link>
+            )}
+            {user && (
+              <Link
+                href="/return-visits"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="My return visits"
+                title="My return visits"
+              >
+                <CalendarClock className="w-5 h-5" />
+              </Link>
+            )}
+            {can(user?.role, 'buildings:delete') && (
+              <Link
+                href="/deleted-buildings"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Deleted buildings"
+                title="Deleted buildings"
+              >
+                <Trash2 className="w-5 h-5" />
+              </Link>
+            )}
+            {can(user?.role, 'publishers:manage') && (
+              <Link
+                href="/publishers"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Publishers"
+                title="Publishers"
+              >
+                <BookUser className="w-5 h-5" />
+              </Link>
+            )}
+            {can(user?.role, 'languages:manage') && (
+              <Link
+                href="/admin/languages"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Manage languages"
+                title="Manage languages"
+              >
+                <Languages className="w-5 h-5" />
+              </Link>
+            )}
+            {can(user?.role, 'users:manage') && (
+              <Link
+                href="/admin/users"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Manage users"
+                title="Manage users"
+              >
+                <Users className="w-5 h-5" />
+              </Link>
+            )}
+            {can(user?.role, 'congregation:manage') && (
+              <Link
+                href="/admin/congregation"
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Congregation settings"
+                title="Congregation settings"
+              >
+                <Settings className="w-5 h-5" />
+              </Link>
+            )}
+            {user && (
+              <button
+                onClick={logout}
+                className="p-1 rounded-md text-white hover:bg-purple-700"
+                aria-label="Sign out"
+                title={`Sign out ${user.name}`}
+              >
+                <LogOut className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
@@ -377,13 +634,13 @@ export default function HomePage() {
       )}
 
       {/* Map Display */}
-      {isMounted && (
+      {isMounted && defaultView && (
         <div className="absolute top-11 bottom-11 left-0 right-0 z-0">
           <MapWithNoSSR
             key={`map-${mapKey}-${shouldAutoFit}`}
             pins={recentPins}
-            center={mapCenter}
-            zoom={mapZoom}
+            center={mapCenter ?? defaultView.center}
+            zoom={mapZoom ?? defaultView.zoom}
             showViewToggle={true}
             userLocation={userLocation}
             onPinClick={handlePinClick}
@@ -392,6 +649,10 @@ export default function HomePage() {
             onPositionUpdate={updatePosition}
             highlightPinId={highlightPinId}
             autoFitBounds={shouldAutoFit}
+            onViewportChange={handleViewportChange}
+            pinBadge="doors"
+            territories={territories}
+            showTerritories={showTerritories}
           />
         </div>
       )}
@@ -399,11 +660,54 @@ export default function HomePage() {
       {/* Bottom Bar */}
       <div className="absolute bottom-0 inset-x-0 z-20 bg-purple-600 shadow">
         <div className="flex items-center justify-center px-4 py-3">
-          {/* Center - 24hr label and refresh button */}
+          {/* Center - time range, viewport filter and refresh button */}
           <div className="flex items-center space-x-3">
-            <span className="text-white text-sm font-medium">
-              24hr
-            </span>
+            <select
+              value={timeRange}
+              onChange={(e) => setTimeRange(e.target.value as TimeRange)}
+              className="bg-purple-700 text-white text-sm font-medium rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-white"
+              aria-label="Time range"
+            >
+              {TIME_RANGES.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={languageStatusFilter}
+              onChange={(e) => setLanguageStatusFilter(e.target.value as LanguageStatus | '')}
+              className="bg-purple-700 text-white text-sm font-medium rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-white"
+              aria-label="Language status"
+              title="Only show buildings with a door whose language has this status"
+            >
+              <option value="">Any status</option>
+              {LANGUAGE_STATUSES.map(status => (
+                <option key={status} value={status}>{LANGUAGE_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+            <button
+              className={`flex items-center space-x-1 px-2 py-1 rounded-md text-sm font-medium transition-colors ${
+                limitToViewport ? 'bg-white text-purple-700' : 'text-white hover:bg-purple-700'
+              }`}
+              onClick={toggleViewportFilter}
+              aria-pressed={limitToViewport}
+              title="Only show buildings in the visible map area"
+            >
+              <Crosshair className="w-4 h-4" />
+              <span>This area</span>
+            </button>
+            <button
+              className={`flex items-center space-x-1 px-2 py-1 rounded-md text-sm font-medium transition-colors ${
+                showTerritories ? 'bg-white text-purple-700' : 'text-white hover:bg-purple-700'
+              }`}
+              onClick={() => setShowTerritories(prev => !prev)}
+              aria-pressed={showTerritories}
+              title="Show territory outlines"
+            >
+              <Hexagon className="w-4 h-4" />
+              <span>Territories</span>
+            </button>
             <button
               className="p-2 hover:bg-purple-700 rounded-lg transition-colors"
               onClick={handleRefresh}
@@ -474,17 +778,16 @@ export default function HomePage() {
               {/* Language */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Language
+                  Language for new doors
                 </label>
                 <select
                   value={editingBuilding?.language || 'English'} 
                   onChange={(e) => setEditingBuilding(prev => prev ? { ...prev, language: e.target.value } : null)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
                 >
-                  <option value="English">English</option>
-                  <option value="Tamil">Tamil</option>
-                  <option value="Hindi">Hindi</option>
-                  <option value="Other">Other</option>
+                  {languageOptions(languages, editingBuilding?.language).map(language => (
+                    <option key={language} value={language}>{language}</option>
+                  ))}
                 </select>
               </div>
 
@@ -497,20 +800,100 @@ export default function HomePage() {
                 {/* Existing Doors */}
                 <div className="space-y-2 mb-3">
                   {editingBuilding?.doors.map((door, index) => ( 
-                    <div key={index} className="flex items-center space-x-2">
-                      <input
-                        type="text"
-                        value={door}
-                        onChange={(e) => updateDoor(index, e.target.value)}
-                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
-                        placeholder="e.g., 1/f, 2/f, 3/f"
-                      />
-                      <button
-                        onClick={() => removeDoor(index)}
-                        className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded"
-                      >
-                        <Trash2 size={16} />
-                      </button>
+                    <div key={door.id ?? `new-${index}`} className="space-y-2">
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="text"
+                          value={door.label}
+                          onChange={(e) => updateDoor(index, { label: e.target.value })}
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          placeholder="e.g., Flat 2, Block B"
+                        />
+                        <select
+                          value={door.language}
+                          onChange={(e) => updateDoor(index, { language: e.target.value, ...UNCONFIRMED })}
+                          className="px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          aria-label="Door language"
+                        >
+                          {languageOptions(languages, door.language).map(language => (
+                            <option key={language} value={language}>{language}</option>
+                          ))}
+                        </select>
+                        {/* Visits and do-not-call requests only apply to doors that have been saved */}
+                        {door.id !== undefined && can(user?.role, 'visits:log') && (
+                          <button
+                            onClick={() => toggleDoorPanel(door.id!, 'visits')}
+                            className={`p-2 rounded ${
+                              doorPanel?.doorId === door.id && doorPanel.panel === 'visits'
+                                ? 'text-white bg-purple-600 hover:bg-purple-700'
+                                : 'text-purple-600 hover:text-purple-800 hover:bg-purple-50'
+                            }`}
+                            title="Log visit"
+                          >
+                            <ClipboardCheck size={16} />
+                          </button>
+                        )}
+                        {door.id !== undefined && can(user?.role, 'buildings:edit') && (
+                          <button
+                            onClick={() => toggleDoorPanel(door.id!, 'do-not-call')}
+                            className={`p-2 rounded ${
+                              doorPanel?.doorId === door.id && doorPanel.panel === 'do-not-call'
+                                ? 'text-white bg-red-600 hover:bg-red-700'
+                                : door.doNotCall
+                                ? 'text-red-600 bg-red-50 hover:bg-red-100'
+                                : 'text-gray-400 hover:text-red-600 hover:bg-red-50'
+                            }`}
+                            title={door.doNotCall ? `Do not call${door.doNotCall.reason ? `: ${door.doNotCall.reason}` : ''}` : 'Mark do not call'}
+                          >
+                            <Ban size={16} />
+                          </button>
+                        )}
+                        {/* Removing a door deletes it, which publishers may not do */}
+                        {can(user?.role, 'buildings:delete') && (
+                          <button
+                            onClick={() => removeDoor(index)}
+                            className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2 text-xs text-gray-500">
+                        <select
+                          value={door.languageStatus ?? 'suspected'}
+                          onChange={(e) => updateDoor(index, { ...UNCONFIRMED, languageStatus: e.target.value as LanguageStatus })}
+                          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          aria-label="Language status"
+                        >
+                          {LANGUAGE_STATUSES.map(status => (
+                            <option key={status} value={status}>{LANGUAGE_STATUS_LABELS[status]}</option>
+                          ))}
+                        </select>
+                        {door.languageStatus && door.languageStatus !== 'suspected' && door.languageConfirmedBy && (
+                          <span className="truncate">
+                            by {door.languageConfirmedBy}
+                            {door.languageConfirmedAt && ` on ${new Date(door.languageConfirmedAt).toLocaleDateString()}`}
+                          </span>
+                        )}
+                      </div>
+                      {door.id !== undefined && doorPanel?.doorId === door.id && editingBuilding && (
+                        doorPanel.panel === 'visits' ? (
+                          <DoorVisitLog
+                            buildingId={editingBuilding.id}
+                            doorId={door.id}
+                            onLogged={(visit) => handleVisitLogged(index, visit)}
+                          />
+                        ) : (
+                          <DoNotCallPanel
+                            key={door.doNotCall?.markedAt ?? 'none'}
+                            buildingId={editingBuilding.id}
+                            doorId={door.id}
+                            doNotCall={door.doNotCall ?? null}
+                            canClear={can(user?.role, 'do-not-call:clear')}
+                            onChange={(doNotCall) => setDoorDoNotCall(index, doNotCall)}
+                          />
+                        )
+                      )}
                     </div>
                   ))}
                 </div>
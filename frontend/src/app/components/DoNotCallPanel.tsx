@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Ban } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+import type { DoNotCall } from '../../types';
+
+interface DoNotCallPanelProps {
+  buildingId: number;
+  doorId: number;
+  doNotCall: DoNotCall | null;
+  // Whether the user's role may clear the request (group overseers and above)
+  canClear?: boolean;
+  onChange: (doNotCall: DoNotCall | null) => void;
+}
+
+// "2026-06-30T00:00:00.000Z" -> "2026-06-30", the value of a date input
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : '');
+
+// Marks a saved door do-not-call, edits the reason and review date, or clears it
+const DoNotCallPanel: React.FC<DoNotCallPanelProps> = ({ buildingId, doorId, doNotCall, canClear = false, onChange }) => {
+  const [reason, setReason] = useState(doNotCall?.reason || '');
+  const [reviewAfter, setReviewAfter] = useState(toDateInput(doNotCall?.reviewAfter ?? null));
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const submit = async (method: 'PUT' | 'DELETE') => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      const res = await apiFetch(`/building/${buildingId}/doors/${doorId}/do-not-call`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(method === 'PUT' && {
+          body: JSON.stringify({ reason: reason.trim() || null, reviewAfter: reviewAfter || null }),
+        }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      onChange(result.door.doNotCall);
+      if (method === 'DELETE') {
+        setReason('');
+        setReviewAfter('');
+      }
+    } catch (error) {
+      console.error(`[DoNotCallPanel] ${method} failed:`, error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (!confirm('Clear the do-not-call request? The door will be called on again.')) return;
+    submit('DELETE');
+  };
+
+  return (
+    <div className="ml-2 p-3 border-l-2 border-red-200 bg-gray-50 rounded-r-md space-y-2">
+      {errorMessage && (
+        <div className="p-2 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+          {errorMessage}
+        </div>
+      )}
+
+      {doNotCall ? (
+        <div className="text-xs text-gray-600">
+          <span className="font-medium text-red-700">Do not call</span>
+          {' since '}{new Date(doNotCall.markedAt).toLocaleDateString()}
+          {doNotCall.markedBy && ` · ${doNotCall.markedBy}`}
+          {doNotCall.reviewDue && <span className="ml-1 font-medium text-amber-700">· Review due</span>}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">The householder asked us not to call again.</p>
+      )}
+
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+        placeholder="Reason (optional)"
+        maxLength={255}
+      />
+      <label className="block text-xs text-gray-600">
+        Review after
+        <input
+          type="date"
+          value={reviewAfter}
+          onChange={(e) => setReviewAfter(e.target.value)}
+          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+        />
+      </label>
+
+      <div className="flex justify-end space-x-2">
+        {doNotCall && canClear && (
+          <button
+            onClick={handleClear}
+            disabled={isSaving}
+            className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-md hover:bg-gray-100 disabled:text-gray-300"
+          >
+            Clear
+          </button>
+        )}
+        <button
+          onClick={() => submit('PUT')}
+          disabled={isSaving}
+          className="px-3 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-1"
+        >
+          <Ban size={14} />
+          <span>{doNotCall ? 'Update' : 'Mark do not call'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DoNotCallPanel;
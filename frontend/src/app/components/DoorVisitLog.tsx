@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+import type { DoorVisit, VisitOutcome } from '../../types';
+
+interface DoorVisitLogProps {
+  buildingId: number;
+  doorId: number;
+  onLogged?: (visit: DoorVisit) => void;
+}
+
+const OUTCOME_LABELS: Record<VisitOutcome, string> = {
+  not_home: 'Not home',
+  spoke: 'Spoke',
+  language_confirmed: 'Language confirmed',
+  wrong_language: 'Wrong language',
+  moved: 'Moved',
+  do_not_call: 'Do not call',
+};
+
+// Number of earlier visits shown under the form
+const RECENT_VISITS = 5;
+
+// Quick form for logging a call at a saved door, with the door's latest visits
+const DoorVisitLog: React.FC<DoorVisitLogProps> = ({ buildingId, doorId, onLogged }) => {
+  const [visits, setVisits] = useState<DoorVisit[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [outcome, setOutcome] = useState<VisitOutcome>('not_home');
+  const [notes, setNotes] = useState('');
+  // Optional date for a follow-up call, scheduled with the logged visit
+  const [returnOn, setReturnOn] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const visitsUrl = `/building/${buildingId}/doors/${doorId}/visits`;
+
+  const loadVisits = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await apiFetch(visitsUrl);
+      if (!res.ok) {
+        throw new Error(`Failed to load visits: ${res.status} ${res.statusText}`);
+      }
+      const data: { visits: DoorVisit[] } = await res.json();
+      setVisits(data.visits);
+    } catch (error) {
+      console.error('[DoorVisitLog] Error loading visits:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [visitsUrl]);
+
+  useEffect(() => {
+    loadVisits();
+  }, [loadVisits]);
+
+  const logVisit = async () => {
+    setIsSaving(true);
+    setErrorMessage('');
+    try {
+      const res = await apiFetch(visitsUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome, notes: notes.trim() || null }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setVisits(prev => [result.visit, ...prev]);
+      setNotes('');
+      onLogged?.(result.visit);
+
+      if (returnOn && outcome !== 'do_not_call') {
+        const scheduled = await apiFetch(`/building/${buildingId}/doors/${doorId}/return-visits`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ dueDate: returnOn, visitId: result.visit.id }),
+        });
+        const scheduleResult = await scheduled.json().catch(() => ({}));
+        if (!scheduled.ok) {
+          throw new Error(
+            `Visit logged, but the return visit was not scheduled: ${scheduleResult.error || `status ${scheduled.status}`}`
+          );
+        }
+        setReturnOn('');
+      }
+    } catch (error) {
+      console.error('[DoorVisitLog] Error logging visit:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="ml-2 p-3 border-l-2 border-purple-200 bg-gray-50 rounded-r-md space-y-2">
+      {errorMessage && (
+        <div className="p-2 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+          {errorMessage}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as VisitOutcome)}
+          className="flex-1 min-w-0 px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          aria-label="Visit outcome"
+        >
+          {(Object.keys(OUTCOME_LABELS) as VisitOutcome[]).map(value => (
+            <option key={value} value={value}>{OUTCOME_LABELS[value]}</option>
+          ))}
+        </select>
+        <button
+          onClick={logVisit}
+          disabled={isSaving}
+          className="px-3 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-1"
+        >
+          <ClipboardCheck size={16} />
+          <span>{isSaving ? 'Logging...' : 'Log'}</span>
+        </button>
+      </div>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 text-sm"
+        placeholder="Notes (optional)"
+        rows={2}
+        maxLength={2000}
+      />
+      {outcome !== 'do_not_call' && (
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>Return visit on</span>
+          <input
+            type="date"
+            value={returnOn}
+            onChange={(e) => setReturnOn(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </label>
+      )}
+
+      {isLoading && visits.length === 0 ? (
+        <p className="text-xs text-gray-500">Loading visits...</p>
+      ) : visits.length === 0 ? (
+        <p className="text-xs text-gray-500">No visits logged yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {visits.slice(0, RECENT_VISITS).map(visit => (
+            <li key={visit.id} className="text-xs text-gray-600">
+              <span className="font-medium text-gray-800">{OUTCOME_LABELS[visit.outcome] ?? visit.outcome}</span>
+              {' · '}
+              {visit.publisherName || visit.recordedBy} · {new Date(visit.visitedAt).toLocaleString()}
+              {visit.notes && <div className="text-gray-500 whitespace-pre-wrap">{visit.notes}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DoorVisitLog;
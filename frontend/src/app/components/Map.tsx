@@ -2,21 +2,26 @@
 
 import React, { useEffect, useRef, useCallback, useState } from 'react';
 import 'leaflet/dist/leaflet.css';
+import type { Door, Territory } from '../../types';
+import { boundaryToLatLngs } from '../../lib/geo';
+import { LANGUAGE_STATUS_LABELS, LANGUAGE_STATUS_MARKS } from '../../lib/doors';
+import { isHexColor, languageAbbreviation, markedPinImage, pinSvg, type PinBadge } from '../../lib/pins';
 
 interface Pin {
   id: number;
   position: [number, number];
   title: string;
-  doors?: string[];
+  doors?: Door[];
   numberOfDoors?: number;
   language?: string;
-  info?: string;
   lat?: number;
   long?: number;
   address?: string;
   pinImage?: string; // This is the field from the backend, e.g., "/pins/pin4.png"
   pinColor?: number; // This is the field from the backend, e.g., 4
+  pinColorHex?: string | null; // Language hex colour; when set the pin is drawn as SVG
   congregationId?: number;
+  doNotCallCount?: number; // Doors that asked not to be called; the pin is marked when > 0
 }
 
 interface LeafletHTMLElement extends HTMLElement {
@@ -47,8 +52,48 @@ interface MapProps {
   congregationId?: number;
   autoFitBounds?: boolean;
   highlightPinId?: number; // Added to zoom to a specific pin after save
+  onViewportChange?: (viewport: MapViewport) => void;
+  pinBadge?: PinBadge; // Badge drawn on SVG pins: door count or language abbreviation
+  territories?: TerritoryOutline[];
+  showTerritories?: boolean; // Draw the territories' outlines with their names
+  boundaryCorners?: [number, number][]; // Corners of the boundary being drawn
+  onBoundaryChange?: (corners: [number, number][]) => void; // Turns on boundary drawing
 }
 
+// What the map needs of a territory to draw its outline
+export type TerritoryOutline = Pick<Territory, 'id' | 'name' | 'boundary'>;
+
+// Stable defaults, so the layer effects below do not rerun on every render
+const NO_TERRITORIES: TerritoryOutline[] = [];
+const NO_CORNERS: [number, number][] = [];
+
+// Visible area reported after every pan/zoom; bbox is [minLng, minLat, maxLng, maxLat]
+export interface MapViewport {
+  bbox: [number, number, number, number];
+  center: [number, number];
+  zoom: number;
+}
+
+// Door labels are free text, so escape them before building popup HTML
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// One popup line per door: label, language with its status mark, who confirmed or
+// ruled out the language, and the do-not-call sign
+const doorPopupLine = (door: Door) => {
+  const status = door.languageStatus ?? 'suspected';
+  let detail = '';
+  if (status !== 'suspected') {
+    detail = LANGUAGE_STATUS_LABELS[status].toLowerCase();
+    if (door.languageConfirmedBy) detail += ` by ${escapeHtml(door.languageConfirmedBy)}`;
+    if (door.languageConfirmedAt) detail += ` on ${new Date(door.languageConfirmedAt).toLocaleDateString()}`;
+  }
+  return `<div>${escapeHtml(door.label)} · ${escapeHtml(door.language)} ${LANGUAGE_STATUS_MARKS[status]}`
+    + (detail ? ` <span style="opacity: 0.8;">(${detail})</span>` : '')
+    + (door.doNotCall ? ' ⛔' : '')
+    + '</div>';
+};
+
 // Declare Leaflet global type for window.L if not already done in a global.d.ts file
 declare global {
   interface Window {
@@ -82,6 +127,12 @@ const Map: React.FC<MapProps> = ({
   congregationId = 1,
   autoFitBounds = true,
   highlightPinId, // Added prop
+  onViewportChange,
+  pinBadge = 'none',
+  territories = NO_TERRITORIES,
+  showTerritories = false,
+  boundaryCorners = NO_CORNERS,
+  onBoundaryChange,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
@@ -89,7 +140,11 @@ const Map: React.FC<MapProps> = ({
   const markerRef = useRef<L.Marker | null>(null);
   const pinMarkersRef = useRef<L.Marker[]>([]);
   const userLocationMarkerRef = useRef<L.Marker | null>(null);
+  const territoryLayersRef = useRef<L.Layer[]>([]);
+  const boundaryLayersRef = useRef<L.Layer[]>([]);
   const isInitializedRef = useRef(false);
+  // Set once the map exists, so layers that only change on user input get drawn
+  const [isMapReady, setIsMapReady] = useState(false);
   const [currentMapView, setCurrentMapView] = useState<'map' | 'satellite'>(mapView);
   const [currentUserLocation, setCurrentUserLocation] = useState<[number, number] | null>(userLocation || null);
 
@@ -128,25 +183,19 @@ const Map: React.FC<MapProps> = ({
   const getPinImage = useCallback((pin: Pin, fallbackLanguage?: string, fallbackCongId?: number) => {
     // Priority 1: Use pinImage directly from the backend if it's provided and not empty
     if (pin.pinImage && pin.pinImage !== "") {
-      console.log(`[getPinImage] Priority 1: Using pinImage from backend for pin ${pin.id || 'N/A'}: ${pin.pinImage}`);
       return pin.pinImage;
     }
     
     // Priority 2: Use pinColor from the backend if it's provided and valid
     if (pin.pinColor && pin.pinColor > 0) {
-      console.log(`[getPinImage] Priority 2: Using pinColor from backend for pin ${pin.id || 'N/A'}: ${pin.pinColor}. Path: /pins/pin${pin.pinColor}.png`);
       return `/pins/pin${pin.pinColor}.png`;
     }
     
     // Fallback: Calculate based on current selected language and congregation ID
     const language = pin.language || fallbackLanguage || selectedLanguage || 'english';
     const congId = pin.congregationId || fallbackCongId || congregationId || 1;
-    
-    console.log(`[getPinImage] Fallback: Calculating pin color for pin ${pin.id || 'N/A'} with language: ${language}, congregation: ${congId}`);
-    
     const pinColor = calculatePinColor(congId, language);
-    console.log(`[getPinImage] Fallback: Calculated pin color for pin ${pin.id || 'N/A'}: ${pinColor}. Path: /pins/pin${pinColor}.png`);
-    
+
     return `/pins/pin${pinColor}.png`;
   }, [calculatePinColor, congregationId, selectedLanguage]);
 
@@ -222,11 +271,19 @@ const Map: React.FC<MapProps> = ({
 
   // Callback for map move end (useful for fetching data for current view)
   const handleMapMoveEnd = useCallback(() => {
-    if (mapInstanceRef.current && onMapMoveEnd) {
-      const center = mapInstanceRef.current.getCenter();
-      onMapMoveEnd(center.lat, center.lng);
+    if (!mapInstanceRef.current) return;
+    const center = mapInstanceRef.current.getCenter();
+    onMapMoveEnd?.(center.lat, center.lng);
+
+    if (onViewportChange) {
+      const bounds = mapInstanceRef.current.getBounds();
+      onViewportChange({
+        bbox: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+        center: [center.lat, center.lng],
+        zoom: mapInstanceRef.current.getZoom(),
+      });
     }
-  }, [onMapMoveEnd]);
+  }, [onMapMoveEnd, onViewportChange]);
 
   // Main effect for map initialization and cleanup
   useEffect(() => {
@@ -273,6 +330,7 @@ const Map: React.FC<MapProps> = ({
       }).setView(center, zoom);
       mapInstanceRef.current = map;
       isInitializedRef.current = true;
+      setIsMapReady(true);
 
       // Function to get appropriate tile layer based on view mode
       const getTileLayer = (view: string) =>
@@ -334,7 +392,10 @@ const Map: React.FC<MapProps> = ({
         tileLayerRef.current = null;
         pinMarkersRef.current = [];
         userLocationMarkerRef.current = null;
+        territoryLayersRef.current = [];
+        boundaryLayersRef.current = [];
         isInitializedRef.current = false;
+        setIsMapReady(false);
       }
     };
   }, [center, currentMapView, handleMapDoubleClick, handlePositionChange, handleMapMoveEnd, zoom, currentUserLocation]);
@@ -489,31 +550,49 @@ const Map: React.FC<MapProps> = ({
       });
       pinMarkersRef.current = [];
 
-      // --- CRITICAL DEBUGGING LOG ---
-      console.log("[Map.tsx DEBUG] Pins array received:", JSON.stringify(pins, null, 2));
-      // --- END CRITICAL DEBUGGING LOG ---
-      
       pins.forEach(pin => {
         const normalizedPin = normalizePin(pin);
         const pinImageUrl = getPinImage(pin); // This will correctly prioritize pin.pinImage
 
-        console.log(`[Map.tsx DEBUG] Processing Pin ID ${pin.id}:`);
-        console.log(`  - Original pin object:`, pin);
-        console.log(`  - Backend pinImage (raw): ${pin.pinImage}`);
-        console.log(`  - Backend pinColor (raw): ${pin.pinColor}`);
-        console.log(`  - Determined pin image URL: ${pinImageUrl}`);
-        
+        // Languages with a hex colour get an SVG pin; the others keep their PNG
+        let badge: string | undefined;
+        if (pinBadge === 'doors') {
+          const doorCount = pin.doors?.length ?? pin.numberOfDoors;
+          badge = doorCount ? String(doorCount) : undefined;
+        } else if (pinBadge === 'language' && pin.language) {
+          badge = languageAbbreviation(pin.language);
+        }
+
+        const doNotCall = (pin.doNotCallCount ?? 0) > 0;
+        const icon = isHexColor(pin.pinColorHex)
+          ? L.divIcon({
+              html: pinSvg(pin.pinColorHex, 48, badge, doNotCall),
+              className: 'svg-pin',
+              iconSize: [48, 48],
+              iconAnchor: [24, 48],
+              popupAnchor: [0, -48],
+            })
+          : doNotCall
+          ? L.divIcon({
+              html: markedPinImage(pinImageUrl, 48),
+              className: 'svg-pin',
+              iconSize: [48, 48],
+              iconAnchor: [24, 48],
+              popupAnchor: [0, -48],
+            })
+          : L.icon({
+              iconUrl: pinImageUrl, // Use the determined image URL
+              iconSize: [48, 48],
+              iconAnchor: [24, 48],
+              popupAnchor: [0, -48],
+              shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
+              shadowSize: [41, 41],
+              shadowAnchor: [12, 41],
+            });
+
         const pinMarker = L.marker(normalizedPin.position, {
           title: normalizedPin.title,
-          icon: L.icon({
-            iconUrl: pinImageUrl, // Use the determined image URL
-            iconSize: [48, 48],
-            iconAnchor: [24, 48],
-            popupAnchor: [0, -48],
-            shadowUrl: 'https://unpkg.com/leaflet@1.7.1/dist/images/marker-shadow.png',
-            shadowSize: [41, 41],
-            shadowAnchor: [12, 41],
-          }),
+          icon,
         })
           .addTo(mapInstanceRef.current!)
           .bindPopup(`
@@ -654,8 +733,9 @@ const Map: React.FC<MapProps> = ({
                 </div>
                 
                 <div style="margin-bottom: 15px; font-size: 12px; opacity: 0.9; line-height: 1.4;">
-                  ${pin.info ? `<div style="margin-bottom: 4px;">Info: ${pin.info}</div>` : ''}
-                  ${pin.numberOfDoors ? `<div style="margin-bottom: 4px;">Doors: ${pin.numberOfDoors}</div>` : ''}
+                  ${pin.doors && pin.doors.length > 0 ? `<div style="margin-bottom: 4px;">Doors (✓ confirmed, ? suspected, ✗ not this language):${pin.doors.map(doorPopupLine).join('')}</div>` : ''}
+                  ${doNotCall ? `<div style="margin-bottom: 4px; font-weight: 600;">⛔ Do not call: ${pin.doNotCallCount} door${pin.doNotCallCount === 1 ? '' : 's'}</div>` : ''}
+                  ${pin.numberOfDoors ? `<div style="margin-bottom: 4px;">Number of doors: ${pin.numberOfDoors}</div>` : ''}
                   ${pin.congregationId ? `<div style="margin-bottom: 4px;">Congregation: ${pin.congregationId}</div>` : ''}
                   ${pin.language ? `<div style="margin-bottom: 4px;">Language: ${pin.language}</div>` : ''}
                 </div>
@@ -842,7 +922,100 @@ const Map: React.FC<MapProps> = ({
     };
 
     updatePins();
-  }, [pins, selectedLanguage, congregationId, getPinImage]);
+  }, [pins, selectedLanguage, congregationId, getPinImage, pinBadge]);
+
+  // Effect to draw territory outlines, labelled with the territory name
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !isMapReady) return;
+
+    const updateOutlines = async () => {
+      const L = await import('leaflet');
+
+      territoryLayersRef.current.forEach(layer => map.removeLayer(layer));
+      territoryLayersRef.current = [];
+      if (!showTerritories) return;
+
+      territories.forEach(territory => {
+        const corners = boundaryToLatLngs(territory.boundary);
+        if (corners.length < 3) return;
+
+        const outline = L.polygon(corners, {
+          color: '#2563eb',
+          weight: 2,
+          fillOpacity: 0.05,
+        })
+          .bindTooltip(escapeHtml(territory.name || `Territory ${territory.id}`), {
+            permanent: true,
+            direction: 'center',
+            className: 'territory-label',
+          })
+          .addTo(map);
+        territoryLayersRef.current.push(outline);
+      });
+    };
+
+    updateOutlines();
+  }, [isMapReady, territories, showTerritories]);
+
+  // Drawing mode: a click on the map adds a corner to the boundary
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !isMapReady || !onBoundaryChange) return;
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      onBoundaryChange([...boundaryCorners, [e.latlng.lat, e.latlng.lng]]);
+    };
+    map.on('click', handleClick);
+    return () => {
+      map.off('click', handleClick);
+    };
+  }, [isMapReady, boundaryCorners, onBoundaryChange]);
+
+  // Effect to draw the boundary being edited, with a handle on every corner that
+  // can be dragged to move it or tapped to remove it
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || !isMapReady) return;
+
+    const updateBoundary = async () => {
+      const L = await import('leaflet');
+
+      boundaryLayersRef.current.forEach(layer => map.removeLayer(layer));
+      boundaryLayersRef.current = [];
+      if (!onBoundaryChange || boundaryCorners.length === 0) return;
+
+      const shape = boundaryCorners.length >= 3
+        ? L.polygon(boundaryCorners, { color: '#7e22ce', weight: 3, fillOpacity: 0.15 })
+        : L.polyline(boundaryCorners, { color: '#7e22ce', weight: 3, dashArray: '6 6' });
+      boundaryLayersRef.current.push(shape.addTo(map));
+
+      boundaryCorners.forEach((corner, index) => {
+        const handle = L.marker(corner, {
+          draggable: true,
+          title: 'Drag to move this corner, tap to remove it',
+          icon: L.divIcon({
+            html: '<div style="width:16px;height:16px;border-radius:50%;background:#fff;border:3px solid #7e22ce;"></div>',
+            className: 'boundary-corner',
+            iconSize: [16, 16],
+            iconAnchor: [8, 8],
+          }),
+        });
+
+        const movedCorners = (): [number, number][] => {
+          const { lat, lng } = handle.getLatLng();
+          return boundaryCorners.map((point, i) => (i === index ? [lat, lng] : point));
+        };
+        handle.on('drag', () => shape.setLatLngs(movedCorners()));
+        handle.on('dragend', () => onBoundaryChange(movedCorners()));
+        handle.on('click', () => onBoundaryChange(boundaryCorners.filter((_, i) => i !== index)));
+
+        boundaryLayersRef.current.push(handle.addTo(map));
+      });
+    };
+
+    updateBoundary();
+  }, [isMapReady, boundaryCorners, onBoundaryChange]);
 
   // Handle map view toggle (map vs. satellite)
   const handleViewToggle = (view: 'map' | 'satellite') => {
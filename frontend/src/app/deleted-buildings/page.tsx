@@ -1,10 +1,140 @@
 'use client';
 
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+import { useRequireSession } from '../../hooks/useSession';
+import { can } from '../../lib/permissions';
+
+// Shapes returned by GET /api/recycle-bin
+interface DeletedBuilding {
+  id: number;
+  lat: number;
+  long: number;
+  address: string;
+  numberOfDoors: number;
+  deletedAt: string;
+  deletedBy: string | null;
+}
+
+interface DeletedDoor {
+  id: number;
+  label: string;
+  language: string | null;
+  buildingId: number;
+  buildingAddress: string;
+  deletedAt: string;
+  deletedBy: string | null;
+}
+
+const formatDeleted = (deletedAt: string, deletedBy: string | null) =>
+  `Deleted by ${deletedBy || 'unknown'} on ${new Date(deletedAt).toLocaleString()}`;
 
 const DeletedBuildingsPage: React.FC = () => {
   const router = useRouter();
+  const [buildings, setBuildings] = useState<DeletedBuilding[]>([]);
+  const [doors, setDoors] = useState<DeletedDoor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+  const { user } = useRequireSession();
+  const canRestore = can(user?.role, 'buildings:delete');
+  const canPurge = can(user?.role, 'buildings:purge');
+
+  const loadRecycleBin = useCallback(async () => {
+    setIsLoading(true);
+    setErrorMessage('');
+    try {
+      const res = await apiFetch('/recycle-bin');
+      if (!res.ok) {
+        throw new Error(`Failed to load the recycle bin: ${res.status} ${res.statusText}`);
+      }
+      const data: { buildings: DeletedBuilding[]; doors: DeletedDoor[] } = await res.json();
+      setBuildings(data.buildings);
+      setDoors(data.doors);
+    } catch (error) {
+      console.error('[DeletedBuildingsPage] Error loading recycle bin:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canRestore) loadRecycleBin();
+  }, [canRestore, loadRecycleBin]);
+
+  // Runs a restore or purge request, then reloads the list
+  const runAction = async (key: string, url: string, method: 'POST' | 'DELETE') => {
+    setBusyKey(key);
+    setErrorMessage('');
+    try {
+      const res = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!res.ok) {
+        const result = await res.json().catch(() => ({}));
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      await loadRecycleBin();
+    } catch (error) {
+      console.error(`[DeletedBuildingsPage] ${method} ${url} failed:`, error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const restoreBuilding = (building: DeletedBuilding) =>
+    runAction(`building-${building.id}`, `/building/${building.id}/restore`, 'POST');
+
+  const purgeBuilding = (building: DeletedBuilding) => {
+    if (!confirm(`Permanently delete "${building.address || `building #${building.id}`}" and its doors? This cannot be undone.`)) return;
+    runAction(`building-${building.id}`, `/building/${building.id}/purge`, 'DELETE');
+  };
+
+  const restoreDoor = (door: DeletedDoor) =>
+    runAction(`door-${door.id}`, `/building/${door.buildingId}/doors/${door.id}/restore`, 'POST');
+
+  const purgeDoor = (door: DeletedDoor) => {
+    if (!confirm(`Permanently delete door "${door.label}"? This cannot be undone.`)) return;
+    runAction(`door-${door.id}`, `/building/${door.buildingId}/doors/${door.id}/purge`, 'DELETE');
+  };
+
+  const actionButtons = (key: string, onRestore: () => void, onPurge: () => void) => (
+    <div className="flex space-x-2 flex-shrink-0">
+      {canRestore && (
+        <button
+          onClick={onRestore}
+          disabled={busyKey !== null}
+          className="px-3 py-2 bg-purple-600 text-white text-sm rounded-md hover:bg-purple-700 disabled:bg-gray-300 flex items-center space-x-1"
+        >
+          <RotateCcw size={14} />
+          <span>{busyKey === key ? '...' : 'Restore'}</span>
+        </button>
+      )}
+      {canPurge && (
+        <button
+          onClick={onPurge}
+          disabled={busyKey !== null}
+          className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded disabled:text-gray-300"
+          title="Delete permanently"
+        >
+          <Trash2 size={16} />
+        </button>
+      )}
+    </div>
+  );
+
+  if (user && !canRestore) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center p-4">
+        <p className="text-gray-600">Only group overseers and above can see deleted buildings.</p>
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -24,18 +154,68 @@ const DeletedBuildingsPage: React.FC = () => {
         </div>
       </div>
 
-      <div className="p-4">
-        <div className="text-center py-12">
-          <div className="text-gray-500 text-lg mb-4">
-            Deleted buildings are permanently removed and not stored.
+      <div className="p-4 max-w-2xl mx-auto space-y-6">
+        {errorMessage && (
+          <div className="p-3 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+            {errorMessage}
           </div>
-          <p className="text-gray-400 text-sm">
-            When you delete a building, it is immediately and permanently removed from the system.
-          </p>
-        </div>
+        )}
+
+        {isLoading && buildings.length === 0 && doors.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading...</div>
+        ) : buildings.length === 0 && doors.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-gray-500 text-lg mb-4">The recycle bin is empty.</div>
+            <p className="text-gray-400 text-sm">
+              Deleted buildings and doors appear here and can be restored until they are deleted permanently.
+            </p>
+          </div>
+        ) : (
+          <>
+            <section>
+              <h2 className="font-semibold mb-2">Buildings ({buildings.length})</h2>
+              <div className="space-y-2">
+                {buildings.map(building => (
+                  <div key={building.id} className="bg-white rounded-lg shadow p-4 flex items-center justify-between space-x-4">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{building.address || `Building #${building.id}`}</div>
+                      <div className="text-sm text-gray-500">
+                        {building.numberOfDoors} doors · {building.lat.toFixed(5)}, {building.long.toFixed(5)}
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        {formatDeleted(building.deletedAt, building.deletedBy)}
+                      </div>
+                    </div>
+                    {actionButtons(`building-${building.id}`, () => restoreBuilding(building), () => purgeBuilding(building))}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="font-semibold mb-2">Doors ({doors.length})</h2>
+              <div className="space-y-2">
+                {doors.map(door => (
+                  <div key={door.id} className="bg-white rounded-lg shadow p-4 flex items-center justify-between space-x-4">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{door.label}</div>
+                      <div className="text-sm text-gray-500 truncate">
+                        {door.language || 'Unknown language'} · {door.buildingAddress || `Building #${door.buildingId}`}
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">
+                        {formatDeleted(door.deletedAt, door.deletedBy)}
+                      </div>
+                    </div>
+                    {actionButtons(`door-${door.id}`, () => restoreDoor(door), () => purgeDoor(door))}
+                  </div>
+                ))}
+              </div>
+            </section>
+          </>
+        )}
       </div>
     </div>
   );
 };
 
-export default DeletedBuildingsPage;
\ No newline at end of file
+export default DeletedBuildingsPage;
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { apiFetch, safeNextPath, setAuthToken } from '../../lib/api';
+
+const LoginContent: React.FC = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setErrorMessage('');
+    try {
+      const res = await apiFetch('/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim(), password }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Sign in failed with status ${res.status}`);
+      }
+      setAuthToken(result.token);
+      router.replace(nextPath);
+    } catch (error) {
+      console.error('[LoginPage] Error signing in:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.push('/')}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Sign In</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-4 max-w-sm mx-auto mt-6 bg-white rounded-lg shadow space-y-4">
+        {errorMessage && (
+          <div className="p-3 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+            {errorMessage}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            autoComplete="email"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            autoComplete="current-password"
+            required
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+
+        <p className="text-sm text-center text-gray-600">
+          No account yet?{' '}
+          <Link href={`/register?next=${encodeURIComponent(nextPath)}`} className="text-purple-600 hover:underline">
+            Register
+          </Link>
+        </p>
+
+        <p className="text-sm text-center text-gray-600">
+          Setting up a new congregation?{' '}
+          <Link href="/onboarding" className="text-purple-600 hover:underline">
+            Get started
+          </Link>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const LoginPage: React.FC = () => {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <LoginContent />
+    </Suspense>
+  );
+};
+
+export default LoginPage;
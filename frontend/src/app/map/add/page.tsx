@@ -3,6 +3,9 @@
 import React, { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import dynamic from 'next/dynamic';
+import { useCongregation } from '../../../hooks/useCongregation';
+import { useSession } from '../../../hooks/useSession';
+import { WORLD_VIEW } from '../../../lib/geo';
 
 const Map = dynamic(() => import('../../components/Map'), {
   ssr: false,
@@ -18,6 +21,9 @@ const MapAddContent: React.FC = () => {
 
   const [position, setPosition] = useState<[number, number] | null>(null);
   const [mapView, setMapView] = useState<'map' | 'satellite'>('map');
+  const [isLocationUnknown, setIsLocationUnknown] = useState(false);
+  const { user, isLoading: isSessionLoading } = useSession();
+  const { defaultView } = useCongregation(user?.congregationId);
 
   useEffect(() => {
     const latParam = searchParams.get('lat');
@@ -33,16 +39,21 @@ const MapAddContent: React.FC = () => {
           (position) => {
             setPosition([position.coords.latitude, position.coords.longitude]);
           },
-          () => {
-            setPosition([13.0827, 80.2707]); // Default to Chennai
-          }
+          () => setIsLocationUnknown(true)
         );
       } else {
-        setPosition([13.0827, 80.2707]);
+        setIsLocationUnknown(true);
       }
     }
   }, [searchParams]);
 
+  // Without the user's location, start from the congregation's map centre
+  useEffect(() => {
+    if (!isLocationUnknown || isSessionLoading) return;
+    const view = user ? defaultView : WORLD_VIEW;
+    if (view) setPosition(view.center);
+  }, [isLocationUnknown, isSessionLoading, user, defaultView]);
+
   const handlePinMove = (newPosition: [number, number]) => setPosition(newPosition);
   const handleMapDoubleClick = (latlng: [number, number]) => setPosition(latlng);
   const handleCancel = () => router.back();
@@ -4,11 +4,18 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import FloatingButtons from '../components/FloatingButtons';
 import Map from '../components/Map';
+import { useCongregation } from '../../hooks/useCongregation';
+import { useSession } from '../../hooks/useSession';
+import { WORLD_VIEW } from '../../lib/geo';
 
 const MapPage: React.FC = () => {
   const router = useRouter();
   const [position, setPosition] = useState<[number, number] | null>(null);
+  const [zoom, setZoom] = useState(16);
   const [loading, setLoading] = useState(true);
+  const [isLocationUnknown, setIsLocationUnknown] = useState(false);
+  const { user, isLoading: isSessionLoading } = useSession();
+  const { defaultView } = useCongregation(user?.congregationId);
  
   const [mapType, setMapType] = useState<'map' | 'satellite'>('map');
 
@@ -19,17 +26,23 @@ const MapPage: React.FC = () => {
           setPosition([pos.coords.latitude, pos.coords.longitude]);
           setLoading(false);
         },
-        () => {
-          setPosition([13.0827, 80.2707]); // Chennai fallback
-          setLoading(false);
-        }
+        () => setIsLocationUnknown(true)
       );
     } else {
-      setPosition([13.0827, 80.2707]);
-      setLoading(false);
+      setIsLocationUnknown(true);
     }
   }, []);
 
+  // Without the user's location, open on the congregation's map centre
+  useEffect(() => {
+    if (!isLocationUnknown || isSessionLoading) return;
+    const view = user ? defaultView : WORLD_VIEW;
+    if (!view) return;
+    setPosition(view.center);
+    setZoom(view.zoom);
+    setLoading(false);
+  }, [isLocationUnknown, isSessionLoading, user, defaultView]);
+
   const handleAddPin = () => {
     if (position) {
       router.push(`/map/add?lat=${position[0]}&lng=${position[1]}`);
@@ -73,7 +86,7 @@ const MapPage: React.FC = () => {
       {position && (
         <Map
           center={position}
-          zoom={16}
+          zoom={zoom}
           draggable={true}
           onPositionChange={setPosition}
           mapView={mapType}
@@ -0,0 +1,478 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/navigation';
+import { Crosshair, Plus, X } from 'lucide-react';
+import type { MapViewport } from '../components/Map';
+import { apiFetch, setAuthToken } from '../../lib/api';
+import { WORLD_VIEW, type MapView } from '../../lib/geo';
+
+const Map = dynamic(() => import('../components/Map'), { ssr: false });
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const STEPS = ['Congregation', 'Languages', 'Map', 'Admin'] as const;
+
+// A language of the palette from GET /api/congregation/onboarding
+interface PaletteLanguage {
+  name: string;
+  color: number | null;
+  colorHex: string | null;
+}
+
+interface OnboardingForm {
+  setupCode: string;
+  congregationNumber: string;
+  name: string;
+  language: string;
+  adminName: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  whatsapp: string;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const OnboardingPage: React.FC = () => {
+  const router = useRouter();
+
+  const [step, setStep] = useState(0);
+  const [palette, setPalette] = useState<PaletteLanguage[] | null>(null);
+  const [setupCodeRequired, setSetupCodeRequired] = useState(false);
+  const [selected, setSelected] = useState<PaletteLanguage[]>([]);
+  const [customLanguage, setCustomLanguage] = useState('');
+  // Where the map starts; `view` follows the user's panning and zooming from there
+  const [startView, setStartView] = useState<MapView>(WORLD_VIEW);
+  const [view, setView] = useState<MapView | null>(null);
+  const [form, setForm] = useState<OnboardingForm>({
+    setupCode: '',
+    congregationNumber: '',
+    name: '',
+    language: '',
+    adminName: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+    whatsapp: '',
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    const loadDefaults = async () => {
+      try {
+        const res = await apiFetch('/congregation/onboarding');
+        if (!res.ok) {
+          throw new Error(`Failed to load the setup defaults: ${res.status} ${res.statusText}`);
+        }
+        const data: { languages: PaletteLanguage[]; setupCodeRequired: boolean } = await res.json();
+        setPalette(data.languages);
+        setSetupCodeRequired(data.setupCodeRequired);
+        // Start with the first language ticked, as the main language
+        setSelected(data.languages.slice(0, 1));
+        setForm(prev => ({ ...prev, language: data.languages[0]?.name ?? '' }));
+      } catch (error) {
+        console.error('[OnboardingPage] Error loading defaults:', error);
+        setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+        setPalette([]);
+      }
+    };
+    loadDefaults();
+  }, []);
+
+  // Open the map where the user is, when the browser knows
+  useEffect(() => {
+    navigator.geolocation?.getCurrentPosition(
+      (pos) => setStartView({ center: [pos.coords.latitude, pos.coords.longitude], zoom: 13 }),
+      () => {}
+    );
+  }, []);
+
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    setView({ center: viewport.center, zoom: Math.round(viewport.zoom) });
+  }, []);
+
+  const updateField = (field: keyof OnboardingForm, value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const isSelected = (name: string) =>
+    selected.some(language => language.name.toLowerCase() === name.toLowerCase());
+
+  const toggleLanguage = (language: PaletteLanguage) => {
+    if (isSelected(language.name)) {
+      setSelected(prev => prev.filter(item => item.name !== language.name));
+      if (form.language === language.name) updateField('language', '');
+    } else {
+      setSelected(prev => [...prev, language]);
+    }
+  };
+
+  const addCustomLanguage = () => {
+    const name = customLanguage.trim();
+    if (!name || isSelected(name)) return;
+    setSelected(prev => [...prev, { name, color: null, colorHex: null }]);
+    setCustomLanguage('');
+  };
+
+  const centerOnMyLocation = () => {
+    if (!navigator.geolocation) {
+      setErrorMessage('Your browser cannot share its location');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setStartView({ center: [pos.coords.latitude, pos.coords.longitude], zoom: 15 }),
+      () => setErrorMessage('Your location could not be found; move the map by hand')
+    );
+  };
+
+  // Checks the current step before moving on; returns the message to show, if any
+  const stepError = (): string | null => {
+    if (step === 0) {
+      const congregationNumber = Number(form.congregationNumber);
+      if (!Number.isInteger(congregationNumber) || congregationNumber <= 0) {
+        return 'Please enter the congregation number';
+      }
+      if (!form.name.trim()) return 'Please enter the congregation name';
+      if (setupCodeRequired && !form.setupCode.trim()) return 'Please enter the setup code';
+    }
+    if (step === 1) {
+      if (selected.length === 0) return 'Please choose at least one language';
+      if (!isSelected(form.language)) return 'Please choose the main language';
+    }
+    if (step === 2 && !view && startView === WORLD_VIEW) {
+      return 'Please move the map to your territory';
+    }
+    return null;
+  };
+
+  const goNext = () => {
+    const error = stepError();
+    setErrorMessage(error ?? '');
+    if (!error) setStep(prev => prev + 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (form.password.length < MIN_PASSWORD_LENGTH) {
+      setErrorMessage(`The password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (form.password !== form.confirmPassword) {
+      setErrorMessage('The passwords do not match');
+      return;
+    }
+
+    const mapView = view ?? startView;
+    setIsSubmitting(true);
+    try {
+      const res = await apiFetch('/congregation/onboarding', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(setupCodeRequired && { setupCode: form.setupCode.trim() }),
+          congregationNumber: Number(form.congregationNumber),
+          name: form.name.trim(),
+          language: form.language,
+          mapCenter: { lat: mapView.center[0], long: mapView.center[1], zoom: mapView.zoom },
+          languages: selected,
+          admin: {
+            name: form.adminName.trim(),
+            email: form.email.trim(),
+            password: form.password,
+            whatsapp: form.whatsapp.trim(),
+          },
+        }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Setup failed with status ${res.status}`);
+      }
+      setAuthToken(result.token);
+      router.replace('/');
+    } catch (error) {
+      console.error('[OnboardingPage] Error setting up congregation:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!palette) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => (step > 0 ? setStep(prev => prev - 1) : router.back())}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">New Congregation</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-4 max-w-md mx-auto mt-6 bg-white rounded-lg shadow space-y-4">
+        {/* Steps */}
+        <ol className="flex justify-between text-xs">
+          {STEPS.map((label, index) => (
+            <li
+              key={label}
+              className={index === step ? 'font-semibold text-purple-700' : index < step ? 'text-gray-700' : 'text-gray-400'}
+            >
+              {index + 1}. {label}
+            </li>
+          ))}
+        </ol>
+
+        {errorMessage && (
+          <div className="p-3 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+            {errorMessage}
+          </div>
+        )}
+
+        {step === 0 && (
+          <>
+            {setupCodeRequired && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Setup code</label>
+                <input
+                  type="text"
+                  value={form.setupCode}
+                  onChange={(e) => updateField('setupCode', e.target.value)}
+                  className={inputClassName}
+                  autoComplete="off"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Congregation number</label>
+              <input
+                type="number"
+                value={form.congregationNumber}
+                onChange={(e) => updateField('congregationNumber', e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Congregation name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => updateField('name', e.target.value)}
+                className={inputClassName}
+                maxLength={255}
+              />
+            </div>
+          </>
+        )}
+
+        {step === 1 && (
+          <>
+            <p className="text-sm text-gray-600">
+              Tick the languages you look for; each gets its own pin colour. Choose the main
+              language, which new doors start with. Languages can be changed later.
+            </p>
+            <ul className="space-y-1">
+              {[...palette, ...selected.filter(language => !palette.some(item => item.name === language.name))].map(language => (
+                <li key={language.name} className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={isSelected(language.name)}
+                    onChange={() => toggleLanguage(language)}
+                    aria-label={language.name}
+                  />
+                  <span
+                    className="w-4 h-4 rounded-full border border-gray-300"
+                    style={{ backgroundColor: language.colorHex ?? 'transparent' }}
+                  />
+                  <span className="flex-1">{language.name}</span>
+                  {isSelected(language.name) && (
+                    <label className="flex items-center space-x-1 text-sm text-gray-600">
+                      <input
+                        type="radio"
+                        name="mainLanguage"
+                        checked={form.language === language.name}
+                        onChange={() => updateField('language', language.name)}
+                      />
+                      <span>Main</span>
+                    </label>
+                  )}
+                  {!palette.some(item => item.name === language.name) && (
+                    <button
+                      type="button"
+                      onClick={() => toggleLanguage(language)}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title="Remove"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={customLanguage}
+                onChange={(e) => setCustomLanguage(e.target.value)}
+                className={inputClassName}
+                placeholder="Another language"
+                maxLength={100}
+              />
+              <button
+                type="button"
+                onClick={addCustomLanguage}
+                disabled={!customLanguage.trim()}
+                className="px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md disabled:text-gray-300"
+                title="Add language"
+              >
+                <Plus size={16} />
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <p className="text-sm text-gray-600">
+              Move and zoom the map so it shows your territory. Maps open here when a
+              publisher&apos;s location is not known.
+            </p>
+            <div className="h-72 rounded-md overflow-hidden border border-gray-300">
+              <Map
+                center={startView.center}
+                zoom={startView.zoom}
+                onViewportChange={handleViewportChange}
+                autoFitBounds={false}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={centerOnMyLocation}
+              className="px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md flex items-center space-x-2 text-sm"
+            >
+              <Crosshair size={16} />
+              <span>Use my location</span>
+            </button>
+          </>
+        )}
+
+        {step === 3 && (
+          <>
+            <p className="text-sm text-gray-600">
+              This account administers the congregation. Others register with the
+              congregation number, and an admin approves them and gives them their roles.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+              <input
+                type="text"
+                value={form.adminName}
+                onChange={(e) => updateField('adminName', e.target.value)}
+                className={inputClassName}
+                autoComplete="name"
+                maxLength={100}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+              <input
+                type="email"
+                value={form.email}
+                onChange={(e) => updateField('email', e.target.value)}
+                className={inputClassName}
+                autoComplete="email"
+                maxLength={150}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+              <input
+                type="password"
+                value={form.password}
+                onChange={(e) => updateField('password', e.target.value)}
+                className={inputClassName}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Confirm password</label>
+              <input
+                type="password"
+                value={form.confirmPassword}
+                onChange={(e) => updateField('confirmPassword', e.target.value)}
+                className={inputClassName}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">WhatsApp number</label>
+              <input
+                type="tel"
+                value={form.whatsapp}
+                onChange={(e) => updateField('whatsapp', e.target.value)}
+                className={inputClassName}
+                autoComplete="tel"
+                maxLength={20}
+              />
+            </div>
+          </>
+        )}
+
+        {step < STEPS.length - 1 ? (
+          <button
+            type="button"
+            onClick={goNext}
+            className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700"
+          >
+            Next
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300"
+          >
+            {isSubmitting ? 'Setting up...' : 'Set up congregation'}
+          </button>
+        )}
+
+        <p className="text-sm text-center text-gray-600">
+          Congregation already set up?{' '}
+          <Link href="/register" className="text-purple-600 hover:underline">
+            Register
+          </Link>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default OnboardingPage;
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+import { useRequireSession } from '../../hooks/useSession';
+import { usePublishers } from '../../hooks/usePublishers';
+import { can } from '../../lib/permissions';
+import type { Publisher } from '../../types';
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const PublishersPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const { publishers, isLoading, error, reload } = usePublishers(!!user);
+  const canManage = can(user?.role, 'publishers:manage');
+
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [newName, setNewName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const draftFor = (publisher: Publisher) => drafts[publisher.id] ?? (publisher.name || '');
+
+  const isDirty = (publisher: Publisher) =>
+    publisher.id in drafts && drafts[publisher.id] !== (publisher.name || '');
+
+  // Sends a request and reloads the roster, surfacing the API error message on failure
+  const submit = async (url: string, method: string, body?: object) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+      await reload();
+      return true;
+    } catch (err) {
+      console.error(`[PublishersPage] ${method} failed:`, err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    const ok = await submit('/publishers', 'POST', { name: newName.trim() });
+    if (ok) setNewName('');
+  };
+
+  const handleSave = async (publisher: Publisher) => {
+    const ok = await submit(`/publishers/${publisher.id}`, 'PATCH', { name: draftFor(publisher).trim() });
+    if (ok) {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[publisher.id];
+        return next;
+      });
+    }
+  };
+
+  const handleDelete = async (publisher: Publisher) => {
+    const linked = publisher.loginName ? ` The login of ${publisher.loginName} will be unlinked.` : '';
+    if (!confirm(`Remove ${publisher.name} from the roster?${linked}`)) return;
+    await submit(`/publishers/${publisher.id}`, 'DELETE');
+  };
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Publishers</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Add Publisher */}
+        {canManage && (
+          <div className="bg-white rounded-lg shadow p-4 flex items-center space-x-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              placeholder="Publisher name"
+              maxLength={255}
+            />
+            <button
+              onClick={handleAdd}
+              disabled={isSaving || !newName.trim()}
+              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Plus size={16} />
+              <span>Add</span>
+            </button>
+          </div>
+        )}
+
+        {/* Roster */}
+        {isLoading && publishers.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading publishers...</div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">{error}</div>
+        ) : publishers.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No publishers yet.</div>
+        ) : (
+          <div className="space-y-2">
+            {publishers.map(publisher => (
+              <div key={publisher.id} className="bg-white rounded-lg shadow p-4 space-y-1">
+                {canManage ? (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={draftFor(publisher)}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [publisher.id]: e.target.value }))}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      aria-label="Publisher name"
+                      maxLength={255}
+                    />
+                    <button
+                      onClick={() => handleDelete(publisher)}
+                      disabled={isSaving}
+                      className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded disabled:text-gray-300"
+                      title="Remove from roster"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleSave(publisher)}
+                      disabled={isSaving || !isDirty(publisher) || !draftFor(publisher).trim()}
+                      className="p-2 text-purple-600 hover:text-purple-800 hover:bg-purple-50 rounded disabled:text-gray-300"
+                      title="Save"
+                    >
+                      <Save size={16} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="font-medium truncate">{publisher.name}</div>
+                )}
+                <div className="text-sm text-gray-500">
+                  {publisher.loginName ? `Signs in as ${publisher.loginName}` : 'No login linked'}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PublishersPage;
@@ -0,0 +1,235 @@
+'use client';
+
+import React, { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { apiFetch, safeNextPath } from '../../lib/api';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface RegisterForm {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  whatsapp: string;
+  congregationNumber: string;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const RegisterContent: React.FC = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get('next'));
+
+  const [form, setForm] = useState<RegisterForm>({
+    name: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+    whatsapp: '',
+    congregationNumber: '',
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+  // Set once the account is created; it cannot sign in until an admin approves it
+  const [pendingMessage, setPendingMessage] = useState('');
+
+  const updateField = (field: keyof RegisterForm, value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage('');
+
+    if (form.password.length < MIN_PASSWORD_LENGTH) {
+      setErrorMessage(`The password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (form.password !== form.confirmPassword) {
+      setErrorMessage('The passwords do not match');
+      return;
+    }
+    const congregationNumber = Number(form.congregationNumber);
+    if (!Number.isInteger(congregationNumber) || congregationNumber <= 0) {
+      setErrorMessage('Please enter your congregation number');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const res = await apiFetch('/auth/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          email: form.email.trim(),
+          password: form.password,
+          whatsapp: form.whatsapp.trim(),
+          congregationNumber,
+        }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Registration failed with status ${res.status}`);
+      }
+      setPendingMessage(result.message || 'Account created. An admin must approve it before you can sign in.');
+    } catch (error) {
+      console.error('[RegisterPage] Error registering:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Register</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      {pendingMessage ? (
+        <div className="p-4 max-w-sm mx-auto mt-6 bg-white rounded-lg shadow space-y-4">
+          <div className="p-3 rounded-md text-sm border bg-green-50 border-green-200 text-green-700">
+            {pendingMessage}
+          </div>
+          <Link
+            href={`/login?next=${encodeURIComponent(nextPath)}`}
+            className="block w-full px-4 py-2 text-center bg-purple-600 text-white rounded-md hover:bg-purple-700"
+          >
+            Go to sign in
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="p-4 max-w-sm mx-auto mt-6 bg-white rounded-lg shadow space-y-4">
+          {errorMessage && (
+            <div className="p-3 rounded-md text-sm border bg-red-50 border-red-200 text-red-700">
+              {errorMessage}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => updateField('name', e.target.value)}
+              className={inputClassName}
+              autoComplete="name"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              type="email"
+              value={form.email}
+              onChange={(e) => updateField('email', e.target.value)}
+              className={inputClassName}
+              autoComplete="email"
+              maxLength={150}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              type="password"
+              value={form.password}
+              onChange={(e) => updateField('password', e.target.value)}
+              className={inputClassName}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Confirm password</label>
+            <input
+              type="password"
+              value={form.confirmPassword}
+              onChange={(e) => updateField('confirmPassword', e.target.value)}
+              className={inputClassName}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">WhatsApp number</label>
+            <input
+              type="tel"
+              value={form.whatsapp}
+              onChange={(e) => updateField('whatsapp', e.target.value)}
+              className={inputClassName}
+              autoComplete="tel"
+              maxLength={20}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Congregation number</label>
+            <input
+              type="number"
+              value={form.congregationNumber}
+              onChange={(e) => updateField('congregationNumber', e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300"
+          >
+            {isSubmitting ? 'Creating account...' : 'Create account'}
+          </button>
+
+          <p className="text-sm text-center text-gray-600">
+            Already registered?{' '}
+            <Link href={`/login?next=${encodeURIComponent(nextPath)}`} className="text-purple-600 hover:underline">
+              Sign in
+            </Link>
+          </p>
+        </form>
+      )}
+    </div>
+  );
+};
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const RegisterPage: React.FC = () => {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <RegisterContent />
+    </Suspense>
+  );
+};
+
+export default RegisterPage;
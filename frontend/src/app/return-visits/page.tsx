@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Check, MapPin, Trash2 } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+import { useRequireSession } from '../../hooks/useSession';
+import { useReturnVisits } from '../../hooks/useReturnVisits';
+import type { ReturnVisit } from '../../types';
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+// Due dates are calendar dates, so they are shown without a time zone shift
+const formatDueDate = (dueDate: string) =>
+  new Date(dueDate).toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'short', day: 'numeric', month: 'short' });
+
+// Opens the home map on the building, the way a newly added building is shown
+const mapLink = (visit: ReturnVisit) =>
+  visit.lat !== null && visit.long !== null ? `/?lat=${visit.lat}&lng=${visit.long}&showNew=true` : null;
+
+const ReturnVisitsPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const { returnVisits, publisherId, isLoading, error, reload } = useReturnVisits(!!user);
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  // Sends a request and reloads the list, surfacing the API error message on failure
+  const submit = async (url: string, method: string, body?: object) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+      await reload();
+    } catch (err) {
+      console.error(`[ReturnVisitsPage] ${method} failed:`, err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDone = (visit: ReturnVisit) =>
+    submit(`/return-visits/${visit.id}`, 'PATCH', { completed: true });
+
+  const handleDelete = (visit: ReturnVisit) => {
+    if (!confirm(`Call off the return visit at ${visit.doorLabel || 'this door'}?`)) return;
+    submit(`/return-visits/${visit.id}`, 'DELETE');
+  };
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  const overdue = returnVisits.filter(visit => visit.overdue);
+  const upcoming = returnVisits.filter(visit => !visit.overdue);
+
+  const renderVisit = (visit: ReturnVisit) => {
+    const href = mapLink(visit);
+    return (
+      <div key={visit.id} className="bg-white rounded-lg shadow p-4 space-y-1">
+        <div className="flex items-start justify-between space-x-2">
+          <div className="min-w-0">
+            <div className="font-medium truncate">
+              {visit.doorLabel || `Door #${visit.doorId}`}
+              {visit.language && <span className="ml-2 text-sm font-normal text-gray-500">{visit.language}</span>}
+            </div>
+            <div className="text-sm text-gray-500 truncate">{visit.address || 'No address'}</div>
+          </div>
+          <div className={`flex-shrink-0 text-sm font-medium ${visit.overdue ? 'text-red-600' : 'text-gray-700'}`}>
+            {formatDueDate(visit.dueDate)}
+          </div>
+        </div>
+        {visit.doNotCall && (
+          <div className="text-sm font-medium text-red-700">This door has since asked not to be called.</div>
+        )}
+        {visit.notes && <div className="text-sm text-gray-600 whitespace-pre-wrap">{visit.notes}</div>}
+        <div className="flex items-center justify-end space-x-2 pt-1">
+          {href && (
+            <Link
+              href={href}
+              className="flex items-center space-x-1 px-3 py-1 text-sm text-purple-700 border border-purple-200 rounded hover:bg-purple-50"
+            >
+              <MapPin size={14} />
+              <span>Map</span>
+            </Link>
+          )}
+          <button
+            onClick={() => handleDelete(visit)}
+            disabled={isSaving}
+            className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded disabled:text-gray-300"
+            title="Call off"
+          >
+            <Trash2 size={16} />
+          </button>
+          <button
+            onClick={() => handleDone(visit)}
+            disabled={isSaving}
+            className="flex items-center space-x-1 px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 disabled:bg-gray-300"
+          >
+            <Check size={14} />
+            <span>Done</span>
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">My return visits</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {isLoading && returnVisits.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading return visits...</div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">{error}</div>
+        ) : publisherId === null ? (
+          <div className="text-center py-12 text-gray-500">
+            Your login is not linked to a publisher on the roster. Ask an admin to link it.
+          </div>
+        ) : returnVisits.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No return visits scheduled.</div>
+        ) : (
+          <>
+            {overdue.length > 0 && (
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold text-red-700">Overdue ({overdue.length})</h2>
+                {overdue.map(renderVisit)}
+              </div>
+            )}
+            {upcoming.length > 0 && (
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold text-gray-700">Upcoming ({upcoming.length})</h2>
+                {upcoming.map(renderVisit)}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReturnVisitsPage;
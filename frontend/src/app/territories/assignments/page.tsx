@@ -0,0 +1,317 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FileText, History, LogIn, LogOut } from 'lucide-react';
+import { apiFetch } from '../../../lib/api';
+import { assigneeLabel, daysSince, formatDays } from '../../../lib/assignments';
+import { usePublishers } from '../../../hooks/usePublishers';
+import { useRequireSession } from '../../../hooks/useSession';
+import { can } from '../../../lib/permissions';
+import type { Assignment, TerritoryStatus } from '../../../types';
+
+interface CheckoutDraft {
+  territoryId: number;
+  // Roster entry; '' to type a name that is not on the roster
+  publisherId: string;
+  publisherName: string;
+  groupName: string;
+}
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+// "Checked out to Ravi for 12 days" / "In for 3 days" / "Never checked out"
+const StatusLine: React.FC<{ status: TerritoryStatus }> = ({ status }) => {
+  const days = daysSince(status.since);
+  if (status.status === 'checked_out') {
+    return (
+      <span className="text-sm text-orange-700">
+        Checked out to {assigneeLabel(status.publisherName, status.groupName)}
+        {days !== null && (days === 0 ? ' today' : ` for ${formatDays(days)}`)}
+      </span>
+    );
+  }
+  return (
+    <span className="text-sm text-green-700">
+      {days === null ? 'Never checked out' : days === 0 ? 'In since today' : `In for ${formatDays(days)}`}
+    </span>
+  );
+};
+
+const AssignmentsPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const canManage = can(user?.role, 'assignments:manage');
+  const { publishers } = usePublishers(canManage);
+
+  const [statuses, setStatuses] = useState<TerritoryStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [checkout, setCheckout] = useState<CheckoutDraft | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [history, setHistory] = useState<Assignment[]>([]);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const loadStatuses = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const res = await apiFetch('/territory/assignments');
+      if (!res.ok) {
+        throw new Error(`Failed to load assignments: ${res.status} ${res.statusText}`);
+      }
+      const data: { territories: TerritoryStatus[] } = await res.json();
+      setStatuses(data.territories);
+    } catch (err) {
+      console.error('[AssignmentsPage] Error loading assignments:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadHistory = useCallback(async (territoryId: number) => {
+    try {
+      const res = await apiFetch(`/territory/${territoryId}/assignments`);
+      if (!res.ok) {
+        throw new Error(`Failed to load history: ${res.status} ${res.statusText}`);
+      }
+      const data: { history: Assignment[] } = await res.json();
+      setHistory(data.history);
+    } catch (err) {
+      console.error('[AssignmentsPage] Error loading history:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) loadStatuses();
+  }, [user, loadStatuses]);
+
+  const toggleHistory = (territoryId: number) => {
+    if (historyId === territoryId) {
+      setHistoryId(null);
+      return;
+    }
+    setHistory([]);
+    setHistoryId(territoryId);
+    loadHistory(territoryId);
+  };
+
+  // Records a check-out or check-in, then refreshes the list and any open history
+  const changeStatus = async (territoryId: number, body: object) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/territory/${territoryId}/assignments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+      setCheckout(null);
+      await loadStatuses();
+      if (historyId === territoryId) await loadHistory(territoryId);
+    } catch (err) {
+      console.error('[AssignmentsPage] POST failed:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCheckout = () => {
+    if (!checkout) return;
+    changeStatus(checkout.territoryId, {
+      status: 'checked_out',
+      publisherId: checkout.publisherId ? Number(checkout.publisherId) : null,
+      publisherName: checkout.publisherId ? null : checkout.publisherName.trim() || null,
+      groupName: checkout.groupName.trim() || null,
+    });
+  };
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Assignments</h1>
+          <Link
+            href="/territories/report"
+            className="p-2 hover:bg-purple-600 rounded"
+            aria-label="Territory record"
+            title="Territory record"
+          >
+            <FileText className="w-6 h-6" />
+          </Link>
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {isLoading && statuses.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading assignments...</div>
+        ) : statuses.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No territories yet.</div>
+        ) : (
+          statuses.map(status => (
+            <div key={status.id} className="bg-white rounded-lg shadow p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{status.name || `Territory ${status.id}`}</div>
+                  <StatusLine status={status} />
+                </div>
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => toggleHistory(status.id)}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded"
+                    title="History"
+                    aria-pressed={historyId === status.id}
+                  >
+                    <History size={16} />
+                  </button>
+                  {canManage && status.status === 'checked_out' && (
+                    <button
+                      onClick={() => changeStatus(status.id, { status: 'checked_in' })}
+                      disabled={isSaving}
+                      className="px-3 py-2 text-green-700 hover:bg-green-50 rounded-md flex items-center space-x-1 text-sm disabled:text-gray-300"
+                    >
+                      <LogIn size={16} />
+                      <span>Check in</span>
+                    </button>
+                  )}
+                  {canManage && status.status === 'checked_in' && (
+                    <button
+                      onClick={() => setCheckout({
+                        territoryId: status.id,
+                        publisherId: '',
+                        publisherName: '',
+                        groupName: status.territoryGroupName || '',
+                      })}
+                      disabled={isSaving}
+                      className="px-3 py-2 text-orange-700 hover:bg-orange-50 rounded-md flex items-center space-x-1 text-sm disabled:text-gray-300"
+                    >
+                      <LogOut size={16} />
+                      <span>Check out</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Check-out form */}
+              {checkout?.territoryId === status.id && (
+                <div className="space-y-2 border-t pt-3">
+                  {publishers.length > 0 && (
+                    <select
+                      value={checkout.publisherId}
+                      onChange={(e) => setCheckout(prev => prev && { ...prev, publisherId: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      aria-label="Publisher"
+                    >
+                      <option value="">No publisher from the roster</option>
+                      {publishers.map(publisher => (
+                        <option key={publisher.id} value={publisher.id}>{publisher.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  {!checkout.publisherId && (
+                    <input
+                      type="text"
+                      value={checkout.publisherName}
+                      onChange={(e) => setCheckout(prev => prev && { ...prev, publisherName: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder={publishers.length > 0 ? 'Or type a publisher name' : 'Publisher'}
+                      maxLength={100}
+                    />
+                  )}
+                  <input
+                    type="text"
+                    value={checkout.groupName}
+                    onChange={(e) => setCheckout(prev => prev && { ...prev, groupName: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder="Service group"
+                    maxLength={100}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => setCheckout(null)}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleCheckout}
+                      disabled={isSaving || (!checkout.publisherId && !checkout.publisherName.trim() && !checkout.groupName.trim())}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                    >
+                      Check out
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* History */}
+              {historyId === status.id && (
+                <div className="border-t pt-3">
+                  {history.length === 0 ? (
+                    <p className="text-sm text-gray-500">No check-outs recorded yet.</p>
+                  ) : (
+                    <ul className="text-sm space-y-1">
+                      {history.map(entry => (
+                        <li key={entry.id} className="flex justify-between space-x-2">
+                          <span>
+                            {entry.status === 'checked_out' ? 'Checked out to ' : 'Checked in from '}
+                            {assigneeLabel(entry.publisherName, entry.groupName)}
+                          </span>
+                          <span className="text-gray-500 whitespace-nowrap">
+                            {entry.at ? new Date(entry.at).toLocaleDateString() : ''}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentsPage;
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { Suspense, useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Eraser, Save, Undo2 } from 'lucide-react';
+import { apiFetch } from '../../../lib/api';
+import { boundaryToLatLngs, cornersCenter, latLngsToBoundary } from '../../../lib/geo';
+import { useCongregation } from '../../../hooks/useCongregation';
+import { useRequireSession } from '../../../hooks/useSession';
+import { useTerritories } from '../../../hooks/useTerritories';
+import { can } from '../../../lib/permissions';
+
+const Map = dynamic(() => import('../../components/Map'), { ssr: false });
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+// Where to open the map: the territory itself, else the last known user location,
+// else `fallback` (the congregation's map centre)
+function initialCenter(corners: [number, number][], fallback: [number, number]): [number, number] {
+  const center = cornersCenter(corners);
+  if (center) return center;
+
+  try {
+    const saved = localStorage.getItem('userLocation');
+    if (saved) return JSON.parse(saved) as [number, number];
+  } catch (err) {
+    console.error('[TerritoryBoundaryPage] Failed to parse saved location:', err);
+  }
+  return fallback;
+}
+
+const TerritoryBoundaryContent: React.FC = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const territoryId = Number(searchParams.get('id'));
+  const { user } = useRequireSession();
+  const { territories, isLoading, error } = useTerritories(!!user);
+  const { defaultView } = useCongregation(user?.congregationId);
+
+  const territory = territories.find(item => item.id === territoryId);
+  const [corners, setCorners] = useState<[number, number][] | null>(null);
+  const [center, setCenter] = useState<[number, number] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  // Start from the saved boundary once the territory has loaded
+  useEffect(() => {
+    if (!territory || corners !== null || !defaultView) return;
+    const saved = boundaryToLatLngs(territory.boundary);
+    setCorners(saved);
+    setCenter(initialCenter(saved, defaultView.center));
+  }, [territory, corners, defaultView]);
+
+  // The other territories are outlined for reference while drawing
+  const otherTerritories = useMemo(
+    () => territories.filter(item => item.id !== territoryId),
+    [territories, territoryId]
+  );
+
+  const canEdit = !!territory && !!user && (
+    can(user.role, 'territories:manage')
+    || (can(user.role, 'territories:manage-group') && !!user.groupName && territory.groupName === user.groupName)
+  );
+
+  const handleSave = async () => {
+    if (!territory || !corners) return;
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(`/territory/${territory.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ boundary: latLngsToBoundary(corners) }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setMessage({ type: 'success', text: corners.length === 0 ? 'Boundary removed' : 'Boundary saved' });
+    } catch (err) {
+      console.error('[TerritoryBoundaryPage] PATCH failed:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user || (isLoading && territories.length === 0)) {
+    return <LoadingSpinner />;
+  }
+
+  if (error || !territory) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center p-4">
+        <p className="text-gray-600">{error || 'Territory not found'}</p>
+      </div>
+    );
+  }
+
+  if (!canEdit) {
+    return (
+      <div className="h-screen w-full flex items-center justify-center p-4">
+        <p className="text-gray-600">Your role does not allow drawing this territory&apos;s boundary.</p>
+      </div>
+    );
+  }
+
+  // A boundary needs three corners; none at all removes it
+  const canSave = !!corners && (corners.length === 0 || corners.length >= 3);
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold truncate">{territory.name || `Territory ${territory.id}`}</h1>
+          <div className="w-10"></div> {/* Spacer for alignment */}
+        </div>
+      </div>
+
+      <div className="p-3 space-y-2">
+        <p className="text-sm text-gray-600">
+          Tap the map to add corners. Drag a corner to move it, tap it to remove it.
+        </p>
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+      </div>
+
+      {/* Map */}
+      <div className="flex-1 relative">
+        {center && corners && (
+          <Map
+            center={center}
+            zoom={16}
+            showViewToggle={true}
+            autoFitBounds={false}
+            territories={otherTerritories}
+            showTerritories={true}
+            boundaryCorners={corners}
+            onBoundaryChange={setCorners}
+          />
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="p-3 flex items-center justify-between bg-white border-t">
+        <span className="text-sm text-gray-500">{corners?.length ?? 0} corners</span>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setCorners(prev => (prev ? prev.slice(0, -1) : prev))}
+            disabled={!corners || corners.length === 0}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:text-gray-300"
+            title="Remove the last corner"
+          >
+            <Undo2 size={18} />
+          </button>
+          <button
+            onClick={() => setCorners([])}
+            disabled={!corners || corners.length === 0}
+            className="p-2 text-red-500 hover:bg-red-50 rounded disabled:text-gray-300"
+            title="Clear the boundary"
+          >
+            <Eraser size={18} />
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !canSave}
+            className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Save size={16} />
+            <span>{isSaving ? 'Saving...' : 'Save'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TerritoryBoundaryPage: React.FC = () => {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <TerritoryBoundaryContent />
+    </Suspense>
+  );
+};
+
+export default TerritoryBoundaryPage;
@@ -0,0 +1,366 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ClipboardList, Hexagon, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+import { useRequireSession } from '../../hooks/useSession';
+import { useTerritories } from '../../hooks/useTerritories';
+import { can } from '../../lib/permissions';
+import type { Territory } from '../../types';
+
+interface TerritoryDraft {
+  name: string;
+  groupName: string;
+}
+
+// Result of POST /api/territory/reassign
+interface ReassignResult {
+  message: string;
+  checked: number;
+  reassigned: { buildingId: number; from: number | null; to: number }[];
+  ambiguous: { buildingId: number; address: string; territoryIds: number[] }[];
+  outside: { buildingId: number; address: string; territoryId: number | null }[];
+}
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const TerritoriesPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+  const { territories, unassigned, isLoading, error, reload } = useTerritories(!!user);
+
+  const [drafts, setDrafts] = useState<Record<number, TerritoryDraft>>({});
+  const [newTerritory, setNewTerritory] = useState<TerritoryDraft>({ name: '', groupName: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [reassignResult, setReassignResult] = useState<ReassignResult | null>(null);
+
+  // Territory servants and admins manage every territory, group overseers their group's
+  const canManageAll = can(user?.role, 'territories:manage');
+  const canManageGroup = can(user?.role, 'territories:manage-group') && !!user?.groupName;
+  const canEdit = (territory: Territory) =>
+    canManageAll || (canManageGroup && territory.groupName === user?.groupName);
+
+  const draftFor = (territory: Territory): TerritoryDraft =>
+    drafts[territory.id] || { name: territory.name || '', groupName: territory.groupName || '' };
+
+  const updateDraft = (territory: Territory, changes: Partial<TerritoryDraft>) => {
+    setDrafts(prev => ({ ...prev, [territory.id]: { ...draftFor(territory), ...changes } }));
+  };
+
+  const isDirty = (territory: Territory) => {
+    const draft = drafts[territory.id];
+    return !!draft && (
+      draft.name !== (territory.name || '') || draft.groupName !== (territory.groupName || '')
+    );
+  };
+
+  // Group overseers cannot move territories between groups, so they never send one
+  const toBody = (draft: TerritoryDraft) => ({
+    name: draft.name.trim(),
+    ...(canManageAll && { groupName: draft.groupName.trim() || null }),
+  });
+
+  // Sends a request and reloads the list, surfacing the API error message on failure
+  const submit = async (url: string, method: string, body?: object) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const res = await apiFetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setMessage({ type: 'success', text: result.message || 'Saved' });
+      await reload();
+      return true;
+    } catch (err) {
+      console.error(`[TerritoriesPage] ${method} failed:`, err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newTerritory.name.trim()) return;
+    const ok = await submit('/territory', 'POST', toBody(newTerritory));
+    if (ok) setNewTerritory({ name: '', groupName: '' });
+  };
+
+  const handleSave = async (territory: Territory) => {
+    const ok = await submit(`/territory/${territory.id}`, 'PATCH', toBody(draftFor(territory)));
+    if (ok) {
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[territory.id];
+        return next;
+      });
+    }
+  };
+
+  // Moves every building into the territory whose boundary contains it
+  const handleReassign = async () => {
+    if (!confirm('Re-assign all buildings to the territory whose boundary contains them?')) return;
+    setIsSaving(true);
+    setMessage(null);
+    setReassignResult(null);
+    try {
+      const res = await apiFetch('/territory/reassign', { method: 'POST' });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(result.error || `Request failed with status ${res.status}`);
+      }
+      setReassignResult(result);
+      await reload();
+    } catch (err) {
+      console.error('[TerritoriesPage] Reassign failed:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Unknown error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const territoryName = (id: number) => {
+    const territory = territories.find(item => item.id === id);
+    return territory?.name || `Territory ${id}`;
+  };
+
+  const handleDelete = async (territory: Territory) => {
+    if (!confirm(`Delete the territory "${territory.name}"?`)) return;
+    await submit(`/territory/${territory.id}`, 'DELETE');
+  };
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Territories</h1>
+          <Link
+            href="/territories/assignments"
+            className="p-2 hover:bg-purple-600 rounded"
+            aria-label="Assignments"
+            title="Assignments"
+          >
+            <ClipboardList className="w-6 h-6" />
+          </Link>
+        </div>
+      </div>
+
+      <div className="p-4 max-w-2xl mx-auto space-y-4">
+        {message && (
+          <div
+            className={`p-3 rounded-md text-sm border ${
+              message.type === 'error'
+                ? 'bg-red-50 border-red-200 text-red-700'
+                : 'bg-green-50 border-green-200 text-green-700'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Add Territory */}
+        {(canManageAll || canManageGroup) && (
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <h2 className="font-semibold">Add territory</h2>
+            <input
+              type="text"
+              value={newTerritory.name}
+              onChange={(e) => setNewTerritory(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              placeholder="Territory name, e.g. T-12 Anna Nagar"
+            />
+            {canManageAll ? (
+              <input
+                type="text"
+                value={newTerritory.groupName}
+                onChange={(e) => setNewTerritory(prev => ({ ...prev, groupName: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                placeholder="Service group (optional)"
+                maxLength={100}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">Added to your group, {user.groupName}.</p>
+            )}
+            <button
+              onClick={handleAdd}
+              disabled={isSaving || !newTerritory.name.trim()}
+              className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Plus size={16} />
+              <span>Add</span>
+            </button>
+          </div>
+        )}
+
+        {/* Re-assign Buildings */}
+        {canManageAll && territories.some(territory => territory.boundary) && (
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold">Buildings by boundary</h2>
+              <button
+                onClick={handleReassign}
+                disabled={isSaving}
+                className="px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md flex items-center space-x-2 text-sm disabled:text-gray-300"
+              >
+                <RefreshCw size={16} />
+                <span>Re-assign</span>
+              </button>
+            </div>
+            {reassignResult && (
+              <div className="text-sm space-y-2">
+                <p className="text-green-700">
+                  {reassignResult.message} of {reassignResult.checked} checked.
+                </p>
+                {reassignResult.ambiguous.length > 0 && (
+                  <div>
+                    <p className="text-orange-700">In more than one territory, left as they were:</p>
+                    <ul className="list-disc pl-5 text-gray-600">
+                      {reassignResult.ambiguous.map(item => (
+                        <li key={item.buildingId}>
+                          {item.address || `Building ${item.buildingId}`}: {item.territoryIds.map(territoryName).join(', ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {reassignResult.outside.length > 0 && (
+                  <p className="text-gray-600">
+                    {reassignResult.outside.length} building(s) lie outside every boundary and were left as they were.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Territory List */}
+        {isLoading && territories.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading territories...</div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">{error}</div>
+        ) : (
+          <>
+            {territories.length === 0 && (
+              <div className="text-center py-12 text-gray-500">No territories yet.</div>
+            )}
+            {territories.map(territory => {
+              const draft = draftFor(territory);
+              const counts = (
+                <span className="text-sm text-gray-500 whitespace-nowrap">
+                  {territory.buildingCount} buildings · {territory.doorCount} doors
+                </span>
+              );
+
+              if (!canEdit(territory)) {
+                return (
+                  <div key={territory.id} className="bg-white rounded-lg shadow p-4 flex items-center justify-between">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{territory.name || `Territory ${territory.id}`}</div>
+                      {territory.groupName && (
+                        <div className="text-sm text-gray-500 truncate">{territory.groupName}</div>
+                      )}
+                    </div>
+                    {counts}
+                  </div>
+                );
+              }
+
+              return (
+                <div key={territory.id} className="bg-white rounded-lg shadow p-4 space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => updateDraft(territory, { name: e.target.value })}
+                      className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      aria-label="Territory name"
+                    />
+                    {counts}
+                  </div>
+                  {canManageAll ? (
+                    <input
+                      type="text"
+                      value={draft.groupName}
+                      onChange={(e) => updateDraft(territory, { groupName: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="Service group"
+                      maxLength={100}
+                      aria-label="Service group"
+                    />
+                  ) : (
+                    <p className="text-sm text-gray-500">{territory.groupName}</p>
+                  )}
+                  <div className="flex justify-end space-x-2">
+                    <Link
+                      href={`/territories/boundary?id=${territory.id}`}
+                      className="px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md flex items-center space-x-2 text-sm"
+                    >
+                      <Hexagon size={16} />
+                      <span>{territory.boundary ? 'Edit boundary' : 'Draw boundary'}</span>
+                    </Link>
+                    <button
+                      onClick={() => handleDelete(territory)}
+                      disabled={isSaving || territory.buildingCount > 0}
+                      className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                      title={territory.buildingCount > 0 ? 'Territories with buildings cannot be deleted' : 'Delete territory'}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleSave(territory)}
+                      disabled={isSaving || !isDirty(territory) || !draft.name.trim()}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center space-x-2"
+                    >
+                      <Save size={16} />
+                      <span>Save</span>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {unassigned.buildingCount > 0 && (
+              <div className="bg-white rounded-lg shadow p-4 flex items-center justify-between">
+                <div className="font-medium text-gray-500">No territory</div>
+                <span className="text-sm text-gray-500 whitespace-nowrap">
+                  {unassigned.buildingCount} buildings · {unassigned.doorCount} doors
+                </span>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TerritoriesPage;
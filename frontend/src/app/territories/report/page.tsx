@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Printer } from 'lucide-react';
+import { apiFetch } from '../../../lib/api';
+import { assigneeLabel } from '../../../lib/assignments';
+import { useRequireSession } from '../../../hooks/useSession';
+import type { TerritoryReportRow } from '../../../types';
+
+// Service years run September to August and are named after the year they end in
+const CURRENT_SERVICE_YEAR = new Date().getMonth() >= 8 ? new Date().getFullYear() + 1 : new Date().getFullYear();
+const SERVICE_YEARS = Array.from({ length: 5 }, (_, index) => CURRENT_SERVICE_YEAR - index);
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '');
+
+const LoadingSpinner: React.FC = () => (
+  <div className="h-screen w-full flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-purple-700 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+const TerritoryReportPage: React.FC = () => {
+  const router = useRouter();
+  const { user } = useRequireSession();
+
+  const [serviceYear, setServiceYear] = useState(CURRENT_SERVICE_YEAR);
+  const [staleMonths, setStaleMonths] = useState(12);
+  const [rows, setRows] = useState<TerritoryReportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ serviceYear: String(serviceYear), staleMonths: String(staleMonths) });
+      const res = await apiFetch(`/territory/report?${params}`);
+      if (!res.ok) {
+        throw new Error(`Failed to load the report: ${res.status} ${res.statusText}`);
+      }
+      const data: { territories: TerritoryReportRow[] } = await res.json();
+      setRows(data.territories);
+    } catch (err) {
+      console.error('[TerritoryReportPage] Error loading report:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [serviceYear, staleMonths]);
+
+  useEffect(() => {
+    if (user) loadReport();
+  }, [user, loadReport]);
+
+  if (!user) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      {/* Header */}
+      <div className="bg-purple-700 text-white p-4 print:hidden">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => router.back()}
+            className="p-2 hover:bg-purple-600 rounded"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-semibold">Territory Record</h1>
+          <button
+            onClick={() => window.print()}
+            className="p-2 hover:bg-purple-600 rounded"
+            aria-label="Print"
+            title="Print"
+          >
+            <Printer className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 max-w-4xl mx-auto space-y-4">
+        {/* Options */}
+        <div className="flex flex-wrap items-center gap-3 text-sm print:hidden">
+          <label className="flex items-center space-x-2">
+            <span>Service year</span>
+            <select
+              value={serviceYear}
+              onChange={(e) => setServiceYear(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {SERVICE_YEARS.map(year => (
+                <option key={year} value={year}>{year - 1}–{year}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span>Highlight when not worked for</span>
+            <input
+              type="number"
+              min={1}
+              max={120}
+              value={staleMonths}
+              onChange={(e) => setStaleMonths(Math.min(120, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+            />
+            <span>months</span>
+          </label>
+        </div>
+
+        <h2 className="text-lg font-semibold">
+          Territory assignment record, service year {serviceYear - 1}–{serviceYear}
+        </h2>
+
+        {isLoading && rows.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Loading report...</div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">{error}</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">No territories yet.</div>
+        ) : (
+          <table className="w-full text-sm bg-white border border-gray-300 border-collapse">
+            <thead>
+              <tr className="bg-gray-100 text-left">
+                <th className="border border-gray-300 p-2">Territory</th>
+                <th className="border border-gray-300 p-2">Last completed</th>
+                <th className="border border-gray-300 p-2">Assigned to</th>
+                <th className="border border-gray-300 p-2">Assigned</th>
+                <th className="border border-gray-300 p-2">Completed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const assignments = row.assignments.length > 0 ? row.assignments : [null];
+                return assignments.map((assignment, index) => (
+                  <tr
+                    key={`${row.id}-${index}`}
+                    className={`break-inside-avoid ${row.stale ? 'bg-red-50' : ''}`}
+                  >
+                    {index === 0 && (
+                      <>
+                        <td className="border border-gray-300 p-2 align-top" rowSpan={assignments.length}>
+                          <div className="font-medium">{row.name || `Territory ${row.id}`}</div>
+                          {row.groupName && <div className="text-gray-500">{row.groupName}</div>}
+                          {row.stale && (
+                            <div className="text-red-700 text-xs">Not worked for {staleMonths}+ months</div>
+                          )}
+                        </td>
+                        <td className="border border-gray-300 p-2 align-top" rowSpan={assignments.length}>
+                          {row.lastCompletedAt ? (
+                            <>
+                              <div>{formatDate(row.lastCompletedAt)}</div>
+                              <div className="text-gray-500">{row.daysSinceLastWorked} days ago</div>
+                            </>
+                          ) : (
+                            <span className="text-gray-500">Never</span>
+                          )}
+                        </td>
+                      </>
+                    )}
+                    <td className="border border-gray-300 p-2">
+                      {assignment ? assigneeLabel(assignment.publisherName, assignment.groupName) : ''}
+                    </td>
+                    <td className="border border-gray-300 p-2">{assignment ? formatDate(assignment.assignedAt) : ''}</td>
+                    <td className="border border-gray-300 p-2">
+                      {assignment && (assignment.completedAt ? formatDate(assignment.completedAt) : 'Checked out')}
+                    </td>
+                  </tr>
+                ));
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TerritoryReportPage;
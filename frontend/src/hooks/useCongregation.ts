@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { WORLD_VIEW, type MapView } from '../lib/geo';
+import type { Congregation } from '../types';
+
+// Loads a congregation's settings; nothing is loaded until the congregation
+// (normally the signed-in user's) is known. `defaultView` is where its maps open
+// when the user's location is unknown, and stays null until it has loaded.
+export function useCongregation(congregationId: number | undefined) {
+  const [congregation, setCongregation] = useState<Congregation | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (congregationId === undefined) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/congregation/${congregationId}`);
+      if (!res.ok) {
+        throw new Error(`Failed to load the congregation: ${res.status} ${res.statusText}`);
+      }
+      const data: { congregation: Congregation } = await res.json();
+      setCongregation(data.congregation);
+    } catch (err) {
+      console.error('[useCongregation] Error loading congregation:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [congregationId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const mapCenter = congregation?.mapCenter;
+  const defaultView = useMemo<MapView | null>(() => {
+    if (isLoading) return null;
+    return mapCenter ? { center: [mapCenter.lat, mapCenter.long], zoom: mapCenter.zoom } : WORLD_VIEW;
+  }, [isLoading, mapCenter]);
+
+  return { congregation, defaultView, isLoading, error, reload, setCongregation };
+}
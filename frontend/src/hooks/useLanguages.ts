@@ -0,0 +1,45 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { Language } from '../types';
+
+// Loads the languages configured for a congregation; nothing is loaded until the
+// congregation (normally the signed-in user's) is known
+export function useLanguages(congregationId: number | undefined) {
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (congregationId === undefined) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch(`/congregation/${congregationId}/languages`);
+      if (!res.ok) {
+        throw new Error(`Failed to load languages: ${res.status} ${res.statusText}`);
+      }
+      const data: { languages: Language[] } = await res.json();
+      setLanguages(data.languages);
+    } catch (err) {
+      console.error('[useLanguages] Error loading languages:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [congregationId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { languages, isLoading, error, reload };
+}
+
+// Language names for a picker, keeping `current` selectable when it is not configured
+export function languageOptions(languages: Language[], current?: string): string[] {
+  const names = languages.map(language => language.name);
+  return current && !names.includes(current) ? [...names, current] : names;
+}
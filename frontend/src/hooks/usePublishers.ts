@@ -0,0 +1,39 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { Publisher } from '../types';
+
+// Loads the congregation's publisher roster; nothing is loaded until `enabled`, which
+// callers tie to the session being known
+export function usePublishers(enabled: boolean) {
+  const [publishers, setPublishers] = useState<Publisher[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/publishers');
+      if (!res.ok) {
+        throw new Error(`Failed to load publishers: ${res.status} ${res.statusText}`);
+      }
+      const data: { publishers: Publisher[] } = await res.json();
+      setPublishers(data.publishers);
+    } catch (err) {
+      console.error('[usePublishers] Error loading publishers:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { publishers, isLoading, error, reload };
+}
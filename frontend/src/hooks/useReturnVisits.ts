@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { ReturnVisit } from '../types';
+
+// Loads the open return visits of the publisher linked to the signed-in login, earliest
+// due first; nothing is loaded until `enabled`, which callers tie to the session being
+// known. publisherId stays null when the login is not linked to a publisher.
+export function useReturnVisits(enabled: boolean) {
+  const [returnVisits, setReturnVisits] = useState<ReturnVisit[]>([]);
+  const [publisherId, setPublisherId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/return-visits');
+      if (!res.ok) {
+        throw new Error(`Failed to load return visits: ${res.status} ${res.statusText}`);
+      }
+      const data: { publisherId: number | null; returnVisits: ReturnVisit[] } = await res.json();
+      setPublisherId(data.publisherId);
+      setReturnVisits(data.returnVisits);
+    } catch (err) {
+      console.error('[useReturnVisits] Error loading return visits:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { returnVisits, publisherId, isLoading, error, reload };
+}
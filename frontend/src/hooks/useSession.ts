@@ -0,0 +1,70 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { apiFetch, clearAuthToken, getAuthToken, loginUrl } from '../lib/api';
+import type { SessionUser } from '../types';
+
+// Loads the signed-in user from the stored token; `user` is null when signed out
+export function useSession() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    if (!getAuthToken()) {
+      setUser(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const res = await apiFetch('/auth/me');
+      if (!res.ok) {
+        setUser(null);
+        return;
+      }
+      const data: { user: SessionUser } = await res.json();
+      setUser(data.user);
+    } catch (err) {
+      console.error('[useSession] Error loading session:', err);
+      setUser(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Revokes the token on the server, then forgets it locally even if that failed
+  const logout = useCallback(async () => {
+    try {
+      await apiFetch('/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('[useSession] Error signing out:', err);
+    } finally {
+      clearAuthToken();
+      setUser(null);
+    }
+  }, []);
+
+  return { user, isLoading, reload, logout };
+}
+
+// useSession for pages that change data: signed-out users are sent to the login page,
+// which returns them here afterwards
+export function useRequireSession() {
+  const router = useRouter();
+  const session = useSession();
+  const { user, isLoading } = session;
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.replace(loginUrl());
+    }
+  }, [isLoading, user, router]);
+
+  return session;
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import type { Territory } from '../types';
+
+interface TerritoryCounts {
+  buildingCount: number;
+  doorCount: number;
+}
+
+// Loads the signed-in user's territories; nothing is loaded until `enabled`, which
+// callers tie to the session being known
+export function useTerritories(enabled: boolean) {
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [unassigned, setUnassigned] = useState<TerritoryCounts>({ buildingCount: 0, doorCount: 0 });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await apiFetch('/territory');
+      if (!res.ok) {
+        throw new Error(`Failed to load territories: ${res.status} ${res.statusText}`);
+      }
+      const data: { territories: Territory[]; unassigned: TerritoryCounts } = await res.json();
+      setTerritories(data.territories);
+      setUnassigned(data.unassigned);
+    } catch (err) {
+      console.error('[useTerritories] Error loading territories:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { territories, unassigned, isLoading, error, reload };
+}
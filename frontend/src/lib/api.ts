@@ -0,0 +1,46 @@
+// Base URL of the backend API routes
+export const API_BASE_URL = 'https://gp-sapp2-8ycr.vercel.app/api';
+
+const AUTH_TOKEN_STORAGE_KEY = 'gps-v2r:authToken';
+
+// Bearer token returned by /api/auth/login and /api/auth/register
+export function getAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+}
+
+export function setAuthToken(token: string) {
+  window.localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+}
+
+export function clearAuthToken() {
+  window.localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+}
+
+// fetch() against the API with the signed-in user's token attached. A 401 means the
+// token expired or was revoked, so it is dropped and the user has to sign in again.
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+  if (response.status === 401 && token) {
+    clearAuthToken();
+  }
+  return response;
+}
+
+// Login page URL that brings the user back to the current page afterwards
+export function loginUrl(): string {
+  if (typeof window === 'undefined') return '/login';
+  const next = `${window.location.pathname}${window.location.search}`;
+  return `/login?next=${encodeURIComponent(next)}`;
+}
+
+// The `next` parameter of the login page; only same-site paths are followed
+export function safeNextPath(next: string | null): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
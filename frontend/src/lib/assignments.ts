@@ -0,0 +1,19 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days between a timestamp from the API and now
+export function daysSince(since: string | null): number | null {
+  if (!since) return null;
+  return Math.max(0, Math.floor((Date.now() - new Date(since).getTime()) / DAY_MS));
+}
+
+// "today", "1 day" or "12 days"
+export function formatDays(days: number): string {
+  if (days === 0) return 'today';
+  return days === 1 ? '1 day' : `${days} days`;
+}
+
+// Who a territory is checked out to: the publisher, the group, or both
+export function assigneeLabel(publisherName: string | null, groupName: string | null): string {
+  if (publisherName && groupName) return `${publisherName} (${groupName})`;
+  return publisherName || groupName || 'unknown';
+}
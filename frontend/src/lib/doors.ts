@@ -0,0 +1,16 @@
+import type { LanguageStatus } from '../types';
+
+export const LANGUAGE_STATUS_LABELS: Record<LanguageStatus, string> = {
+  suspected: 'Suspected',
+  confirmed: 'Confirmed',
+  not_this_language: 'Not this language',
+};
+
+// Short mark shown after a door's language on the map: ✓ confirmed, ? suspected, ✗ ruled out
+export const LANGUAGE_STATUS_MARKS: Record<LanguageStatus, string> = {
+  suspected: '?',
+  confirmed: '✓',
+  not_this_language: '✗',
+};
+
+export const LANGUAGE_STATUSES = Object.keys(LANGUAGE_STATUS_LABELS) as LanguageStatus[];
@@ -0,0 +1,38 @@
+import type { GeoPolygon } from '../types';
+
+// The map works with [lat, lng] pairs while GeoJSON stores [lng, lat], so territory
+// boundaries are converted on the way in and out
+
+// Corners of a boundary's outer ring, without the closing repeat of the first corner
+export function boundaryToLatLngs(boundary: GeoPolygon | null | undefined): [number, number][] {
+  const ring = boundary?.coordinates[0] ?? [];
+  const corners = ring.map(([lng, lat]) => [lat, lng] as [number, number]);
+  const first = corners[0];
+  const last = corners[corners.length - 1];
+  return corners.length > 1 && first[0] === last[0] && first[1] === last[1]
+    ? corners.slice(0, -1)
+    : corners;
+}
+
+// A closed GeoJSON Polygon for the given corners, or null with fewer than three
+export function latLngsToBoundary(corners: [number, number][]): GeoPolygon | null {
+  if (corners.length < 3) return null;
+  const ring = corners.map(([lat, lng]) => [lng, lat] as [number, number]);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+}
+
+// Average of the corners; good enough to centre the map on a territory
+export function cornersCenter(corners: [number, number][]): [number, number] | null {
+  if (corners.length === 0) return null;
+  const lat = corners.reduce((sum, [cornerLat]) => sum + cornerLat, 0) / corners.length;
+  const lng = corners.reduce((sum, [, cornerLng]) => sum + cornerLng, 0) / corners.length;
+  return [lat, lng];
+}
+
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+// Where maps open for congregations that have not set a map centre yet
+export const WORLD_VIEW: MapView = { center: [20, 0], zoom: 2 };
@@ -0,0 +1,35 @@
+// Mirrors backend/lib/permissions.ts, which enforces the same rules in the API;
+// here they only decide which actions are offered
+
+export const ROLES = ['publisher', 'group_overseer', 'territory_servant', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  publisher: 'Publisher',
+  group_overseer: 'Group overseer',
+  territory_servant: 'Territory servant',
+  admin: 'Admin',
+};
+
+const MINIMUM_ROLE = {
+  'buildings:edit': 'publisher',
+  'visits:log': 'publisher',
+  'buildings:delete': 'group_overseer',
+  'do-not-call:clear': 'group_overseer',
+  'territories:manage-group': 'group_overseer',
+  'territories:manage': 'territory_servant',
+  'assignments:manage': 'territory_servant',
+  'publishers:manage': 'territory_servant',
+  'buildings:purge': 'territory_servant',
+  'languages:manage': 'admin',
+  'users:manage': 'admin',
+  'congregation:manage': 'admin',
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof MINIMUM_ROLE;
+
+// Signed-out users can do nothing
+export function can(role: Role | undefined, permission: Permission): boolean {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(MINIMUM_ROLE[permission]);
+}
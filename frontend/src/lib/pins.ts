@@ -0,0 +1,60 @@
+// SVG map pins drawn from a language's hex colour. The numbered PNGs in
+// /public/pins remain the fallback for languages without a hex colour.
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export type PinBadge = 'none' | 'doors' | 'language';
+
+export const isHexColor = (value: string | null | undefined): value is string =>
+  !!value && HEX_COLOR.test(value);
+
+// Two-letter abbreviation shown in the language badge, e.g. "Tamil" -> "TA"
+export const languageAbbreviation = (language: string) =>
+  language.trim().slice(0, 2).toUpperCase();
+
+// Picks black or white text, whichever reads better on the given colour
+const contrastColor = (hex: string) => {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#111827' : '#ffffff';
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Red no-entry sign drawn in the top-left corner of 48x48 pins of buildings with
+// do-not-call doors
+const DO_NOT_CALL_MARK = `
+  <circle cx="10" cy="10" r="8" fill="#dc2626" stroke="#ffffff" stroke-width="2" />
+  <rect x="5" y="8.5" width="10" height="3" rx="1" fill="#ffffff" />`;
+
+// Markup for a teardrop pin of the given size (width, anchored at bottom centre),
+// with an optional badge in the top-right corner and the do-not-call mark
+export function pinSvg(color: string, size = 48, badge?: string, doNotCall = false): string {
+  const fill = isHexColor(color) ? color : '#6b7280';
+  const badgeText = badge ? escapeXml(badge.slice(0, 3)) : '';
+
+  return `
+    <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 48 48">
+      <path d="M24 46s-14-15.2-14-26a14 14 0 0 1 28 0c0 10.8-14 26-14 26z"
+        fill="${fill}" stroke="#ffffff" stroke-width="2" />
+      <circle cx="24" cy="20" r="5.5" fill="${contrastColor(fill)}" fill-opacity="0.9" />
+      ${badgeText ? `
+        <circle cx="38" cy="10" r="9" fill="#ffffff" stroke="${fill}" stroke-width="2" />
+        <text x="38" y="13.5" text-anchor="middle" font-family="sans-serif" font-weight="700"
+          font-size="${badgeText.length > 2 ? 7.5 : 10}" fill="#111827">${badgeText}</text>
+      ` : ''}
+      ${doNotCall ? DO_NOT_CALL_MARK : ''}
+    </svg>`;
+}
+
+// A PNG pin with the do-not-call mark laid over it, for languages without a hex colour
+export function markedPinImage(imageUrl: string, size = 48): string {
+  return `
+    <div style="position: relative; width: ${size}px; height: ${size}px;">
+      <img src="${escapeXml(imageUrl)}" width="${size}" height="${size}" alt="" />
+      <svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 48 48"
+        style="position: absolute; left: 0; top: 0;">${DO_NOT_CALL_MARK}</svg>
+    </div>`;
+}
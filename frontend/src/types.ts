@@ -1,5 +1,198 @@
+import type { Role } from './lib/permissions';
+
 export interface Pin {
   id: number;
   position: [number, number];
   title: string;
 }
+
+// A householder's request not to be called again, as returned with each door
+export interface DoNotCall {
+  reason: string | null;
+  markedAt: string;
+  markedBy: string | null;
+  // Date only, e.g. "2026-06-30"; the request applies until it is cleared
+  reviewAfter: string | null;
+  reviewDue: boolean;
+}
+
+// Whether a door's language was only guessed, confirmed in person, or ruled out in person
+export type LanguageStatus = 'suspected' | 'confirmed' | 'not_this_language';
+
+// A door as exchanged with the `doors` array of the building API. Leaving languageStatus
+// out keeps the door's status unless its language changes. The confirmation fields and
+// doNotCall are read-only there; doNotCall is set through
+// /api/building/[id]/doors/[doorId]/do-not-call.
+export interface Door {
+  id?: number;
+  label: string;
+  language: string;
+  languageStatus?: LanguageStatus;
+  languageConfirmedBy?: string | null;
+  languageConfirmedAt?: string | null;
+  doNotCall?: DoNotCall | null;
+}
+
+export type VisitOutcome =
+  | 'not_home'
+  | 'spoke'
+  | 'language_confirmed'
+  | 'wrong_language'
+  | 'moved'
+  | 'do_not_call';
+
+// A call logged at a door, from /api/building/[id]/doors/[doorId]/visits
+export interface DoorVisit {
+  id: number;
+  doorId: number;
+  outcome: VisitOutcome;
+  notes: string | null;
+  publisherId: number | null;
+  publisherName: string | null;
+  visitedAt: string;
+  recordedBy: string;
+}
+
+// A follow-up call scheduled at a door, from /api/return-visits
+export interface ReturnVisit {
+  id: number;
+  doorId: number;
+  doorLabel: string;
+  language: string | null;
+  buildingId: number | null;
+  lat: number | null;
+  long: number | null;
+  address: string | null;
+  publisherId: number | null;
+  publisherName: string | null;
+  visitId: number | null;
+  // Date only, e.g. "2026-06-30T00:00:00.000Z"
+  dueDate: string;
+  overdue: boolean;
+  notes: string | null;
+  completedAt: string | null;
+  createdBy: string;
+  // The door has asked not to be called since the visit was scheduled
+  doNotCall: boolean;
+}
+
+// A congregation language as returned by /api/congregation/[id]/languages
+export interface Language {
+  id: number;
+  name: string;
+  color: number | null;
+  colorHex: string | null;
+  pinImage: string | null;
+  congregationId: number;
+  doorCount?: number;
+}
+
+// A GeoJSON Polygon; positions are [longitude, latitude]
+export interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: [number, number][][];
+}
+
+// A congregation territory as returned by /api/territory
+export interface Territory {
+  id: number;
+  name: string | null;
+  groupName: string | null;
+  congregationId: number | null;
+  boundary: GeoPolygon | null;
+  buildingCount: number;
+  doorCount: number;
+}
+
+// Current assignment status of a territory as returned by /api/territory/assignments
+export interface TerritoryStatus {
+  id: number;
+  name: string | null;
+  territoryGroupName: string | null;
+  status: 'checked_out' | 'checked_in';
+  publisherId: number | null;
+  publisherName: string | null;
+  groupName: string | null;
+  since: string | null;
+}
+
+// One check-out or check-in from /api/territory/[id]/assignments
+export interface Assignment {
+  id: number;
+  territoryId: number | null;
+  territoryName: string | null;
+  status: string | null;
+  publisherId: number | null;
+  publisherName: string | null;
+  groupName: string | null;
+  at: string | null;
+  recordedBy: string | null;
+}
+
+// A territory's row in the S-13 assignment record from /api/territory/report
+export interface TerritoryReportRow {
+  id: number;
+  name: string | null;
+  groupName: string | null;
+  isCheckedOut: boolean;
+  lastCompletedAt: string | null;
+  daysSinceLastWorked: number | null;
+  stale: boolean;
+  assignments: {
+    publisherId: number | null;
+    publisherName: string | null;
+    groupName: string | null;
+    assignedAt: string | null;
+    completedAt: string | null;
+  }[];
+}
+
+// The signed-in user as returned by /api/auth/me and /api/auth/login
+export interface SessionUser {
+  loginId: number;
+  name: string;
+  email: string;
+  congregationId: number;
+  role: Role;
+  groupName: string | null;
+  publisherId: number | null;
+}
+
+// Where a congregation's maps open, from /api/congregation/[id]
+export interface MapCenter {
+  lat: number;
+  long: number;
+  zoom: number;
+}
+
+export interface Congregation {
+  id: number;
+  name: string | null;
+  // Main language, the default for new doors
+  language: string | null;
+  mapCenter: MapCenter | null;
+}
+
+// An entry of the congregation's roster from /api/publishers, with its linked login
+export interface Publisher {
+  id: number;
+  name: string | null;
+  congregationId: number | null;
+  loginId: number | null;
+  loginName: string | null;
+}
+
+// A login of the congregation as listed by /api/users
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  whatsapp: string;
+  role: Role;
+  groupName: string | null;
+  publisherId: number | null;
+  // False while a self-registered login waits for an admin to approve it
+  approved: boolean;
+  loginCount: number;
+  createdAt: string;
+}